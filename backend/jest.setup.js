@@ -0,0 +1,46 @@
+// Keep the test suite offline: model calls are served from a recorded cassette
+// unless LLM_CASSETTE_MODE=record is set explicitly.
+const path = require('path');
+
+process.env.LLM_CASSETTE_MODE = process.env.LLM_CASSETTE_MODE || 'replay';
+process.env.LLM_CASSETTE_PATH = process.env.LLM_CASSETTE_PATH
+  || path.join(__dirname, 'src/__tests__/fixtures/cassettes/default.json');
+
+// Tests that exercise the assessment cache inject their own instance
+process.env.ASSESSMENT_CACHE_ENABLED = process.env.ASSESSMENT_CACHE_ENABLED || 'false';
+
+// Prompt versions created by tests must not land in src/data
+process.env.PROMPT_REGISTRY_PATH = process.env.PROMPT_REGISTRY_PATH
+  || path.join(require('os').tmpdir(), `regulium-test-prompts-${process.pid}.json`);
+
+// Glossary entries created through the API are written to a scratch copy
+if (!process.env.ABBREVIATIONS_JSON_PATH) {
+  const fs = require('fs');
+  const glossaryCopy = path.join(require('os').tmpdir(), `regulium-test-glossary-${process.pid}.json`);
+  fs.copyFileSync(path.join(__dirname, 'src/data/abbreviations.json'), glossaryCopy);
+  process.env.ABBREVIATIONS_JSON_PATH = glossaryCopy;
+}
+
+// The shipped rules would override scripted verdicts; rule tests build their own engine
+process.env.RULES_PATH = process.env.RULES_PATH
+  || path.join(require('os').tmpdir(), `regulium-test-rules-${process.pid}`);
+
+// Compliance runs saved by the API tests go to a scratch file
+process.env.RESULTS_JSON_PATH = process.env.RESULTS_JSON_PATH
+  || path.join(require('os').tmpdir(), `regulium-test-results-${process.pid}.jsonl`);
+
+// Feedback submitted by the tests is written to a scratch copy of corrections.json
+if (!process.env.CORRECTIONS_JSON_PATH) {
+  const fs = require('fs');
+  const correctionsCopy = path.join(require('os').tmpdir(), `regulium-test-corrections-${process.pid}.json`);
+  fs.copyFileSync(path.join(__dirname, 'src/data/corrections.json'), correctionsCopy);
+  process.env.CORRECTIONS_JSON_PATH = correctionsCopy;
+}
+
+// Laws edited through the API are written to a scratch copy of laws.csv
+if (!process.env.LAWS_CSV_PATH) {
+  const fs = require('fs');
+  const lawsCopy = path.join(require('os').tmpdir(), `regulium-test-laws-${process.pid}.csv`);
+  fs.copyFileSync(path.join(__dirname, 'laws.csv'), lawsCopy);
+  process.env.LAWS_CSV_PATH = lawsCopy;
+}
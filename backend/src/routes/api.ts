@@ -1,11 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { ComplianceChecker } from '../services/complianceChecker';
 import { FeedbackHandler } from '../services/feedbackHandler';
-import { DataHandler } from '../services/dataHandler';
+import { DataHandler, LawError } from '../services/dataHandler';
+import { BudgetExceededError } from '../services/usageTracker';
+import { PromptTemplateError } from '../services/promptRegistry';
+import { GlossaryError, scanCandidateTerms } from '../services/glossary';
 import { getCSVPath } from '../utils/pathUtils';
+import { createRun, getStorage, getStorageOptions } from '../services/storage';
 import { 
   ComplianceCheckRequest, 
   ComplianceCheckResponse,
+  CreatePromptVersionRequest,
+  FeatureWarning,
+  GlossaryContext,
+  GlossaryEntryRequest,
+  GlossaryScope,
   FeedbackRequest,
   FeedbackResponse 
 } from '../types';
@@ -39,6 +48,32 @@ const getDataHandler = () => {
   return dataHandler;
 };
 
+// Keep a run for GET /api/results; failing to store it does not fail the check
+const saveRun = (response: ComplianceCheckResponse): ComplianceCheckResponse => {
+  try {
+    const run = createRun(response);
+    getStorage().results.add(run);
+    return { ...response, run_id: run.id };
+  } catch (error) {
+    console.error('Error saving compliance run:', error);
+    return response;
+  }
+};
+
+// The checker keeps its own copy of the laws; one not created yet loads the saved ones
+const reloadCheckerLaws = async () => {
+  if (complianceChecker) {
+    await complianceChecker.refreshData();
+  }
+};
+
+// Bulk upserts list one message per rejected row
+const sendLawError = (res: Response, error: LawError) => res.status(error.status).json({
+  success: false,
+  error: error.message,
+  ...(error.errors.length > 0 ? { errors: error.errors } : {})
+});
+
 // Helper function to ensure data is ready
 const ensureDataReady = async () => {
   const handler = getDataHandler();
@@ -48,11 +83,37 @@ const ensureDataReady = async () => {
   return handler;
 };
 
+/**
+ * Acronyms and codenames in a feature that the glossary does not define.
+ * Acronyms that appear in law titles (DSA, COPPA, ...) are not reported.
+ */
+const findUndefinedTerms = async (text: string, context: GlossaryContext): Promise<FeatureWarning[]> => {
+  const handler = await ensureDataReady();
+  const lawAcronyms = scanCandidateTerms(handler.getLaws().map(law => law.law_title).join('\n'));
+  return getComplianceChecker().getGlossary().findUndefinedTerms(text, context, lawAcronyms).map(term => ({
+    type: 'undefined_term',
+    term,
+    message: `"${term}" has no glossary definition`
+  }));
+};
+
 // Health check endpoint
 router.get('/health', async (req: Request, res: Response) => {
   try {
     const handler = await ensureDataReady();
     const fs = require('fs');
+    const storage = getStorageOptions().backend;
+    if (storage === 'sqlite') {
+      return res.json({
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        service: 'Regulium-Z Backend',
+        dataReady: handler.isReady(),
+        lawsCount: handler.getLaws().length,
+        featuresCount: handler.getFeatures().length,
+        storage
+      });
+    }
     
     // Use shared path utility function
     const lawsPath = getCSVPath('laws.csv');
@@ -65,6 +126,7 @@ router.get('/health', async (req: Request, res: Response) => {
       dataReady: handler.isReady(),
       lawsCount: handler.getLaws().length,
       featuresCount: handler.getFeatures().length,
+      storage,
       handlerCreated: !!handler,
       handlerType: handler.constructor.name,
       lawsPath: lawsPath,
@@ -72,7 +134,9 @@ router.get('/health', async (req: Request, res: Response) => {
       lawsExists: fs.existsSync(lawsPath),
       featuresExists: fs.existsSync(featuresPath),
       lawsSize: fs.existsSync(lawsPath) ? fs.statSync(lawsPath).size : 0,
-      featuresSize: fs.existsSync(featuresPath) ? fs.statSync(featuresPath).size : 0
+      featuresSize: fs.existsSync(featuresPath) ? fs.statSync(featuresPath).size : 0,
+      // Rows skipped while loading the CSV files, with the reason for each
+      csvLoadReport: handler.getLoadReport()
     });
   } catch (error) {
     console.error('Health check error:', error);
@@ -88,7 +152,8 @@ router.get('/health', async (req: Request, res: Response) => {
 router.get('/laws', async (req: Request, res: Response) => {
   try {
     const handler = await ensureDataReady();
-    const laws = handler.getLaws();
+    // ?grouped=true returns one record per law with its provisions
+    const laws = req.query.grouped === 'true' ? handler.getLawRecords() : handler.getLaws();
     return res.json({
       success: true,
       data: laws,
@@ -125,7 +190,7 @@ router.get('/features', async (req: Request, res: Response) => {
 // Add new feature endpoint
 router.post('/features', async (req: Request, res: Response) => {
   try {
-    const { feature_name, feature_description } = req.body;
+    const { feature_name, feature_description, team } = req.body;
     
     // Validate request
     if (!feature_name || !feature_description) {
@@ -142,10 +207,12 @@ router.post('/features', async (req: Request, res: Response) => {
     
     if (success) {
       console.log('Feature added successfully to CSV');
+      const warnings = await findUndefinedTerms(`${feature_name}\n${feature_description}`, { team });
       return res.status(201).json({
         success: true,
         message: 'Feature added successfully',
-        data: { feature_name, feature_description }
+        data: { feature_name, feature_description },
+        warnings
       });
     } else {
       console.error('Failed to add feature to CSV');
@@ -163,11 +230,75 @@ router.post('/features', async (req: Request, res: Response) => {
   }
 });
 
-// Get law by title
-router.get('/laws/:title', async (req: Request, res: Response) => {
+// Jurisdictions a law may be filed under
+router.get('/regions', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const regions = handler.getRegions();
+    return res.json({
+      success: true,
+      data: regions,
+      count: regions.length
+    });
+  } catch (error) {
+    console.error('Error fetching regions:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch regions'
+    });
+  }
+});
+
+// Create a law with its provisions
+router.post('/laws', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const law = await handler.createLaw(req.body);
+    await reloadCheckerLaws();
+    return res.status(201).json({
+      success: true,
+      data: law,
+      message: 'Law created successfully'
+    });
+  } catch (error) {
+    if (error instanceof LawError) {
+      return sendLawError(res, error);
+    }
+    console.error('Error creating law:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create law'
+    });
+  }
+});
+
+// Create or replace provisions by index, in the laws.csv row format
+router.post('/laws/bulk', async (req: Request, res: Response) => {
   try {
     const handler = await ensureDataReady();
-    const law = handler.getLawByTitle(req.params.title);
+    const report = await handler.upsertLaws(req.body?.provisions);
+    await reloadCheckerLaws();
+    return res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    if (error instanceof LawError) {
+      return sendLawError(res, error);
+    }
+    console.error('Error upserting laws:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to upsert laws'
+    });
+  }
+});
+
+// Get a law and its provisions by id or title
+router.get('/laws/:lawId', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const law = handler.getLawRecord(req.params.lawId);
     if (!law) {
       return res.status(404).json({
         success: false,
@@ -187,6 +318,199 @@ router.get('/laws/:title', async (req: Request, res: Response) => {
   }
 });
 
+// Get the provisions of a law
+router.get('/laws/:lawId/provisions', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const law = handler.getLawRecord(req.params.lawId);
+    if (!law) {
+      return res.status(404).json({
+        success: false,
+        error: 'Law not found'
+      });
+    }
+    return res.json({
+      success: true,
+      data: law.provisions,
+      count: law.provisions.length
+    });
+  } catch (error) {
+    console.error('Error fetching provisions:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch provisions'
+    });
+  }
+});
+
+// Get a single provision of a law
+router.get('/laws/:lawId/provisions/:index', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const law = handler.getLawRecord(req.params.lawId);
+    const provision = law ? handler.getProvision(law.id, req.params.index) : undefined;
+    if (!provision) {
+      return res.status(404).json({
+        success: false,
+        error: law ? 'Provision not found' : 'Law not found'
+      });
+    }
+    return res.json({
+      success: true,
+      data: provision
+    });
+  } catch (error) {
+    console.error('Error fetching provision:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch provision'
+    });
+  }
+});
+
+// Rename a law, change its jurisdiction or replace its provisions
+router.put('/laws/:lawId', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const law = await handler.updateLaw(req.params.lawId, req.body);
+    if (!law) {
+      return res.status(404).json({
+        success: false,
+        error: 'Law not found'
+      });
+    }
+    await reloadCheckerLaws();
+    return res.json({
+      success: true,
+      data: law,
+      message: 'Law updated successfully'
+    });
+  } catch (error) {
+    if (error instanceof LawError) {
+      return sendLawError(res, error);
+    }
+    console.error('Error updating law:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update law'
+    });
+  }
+});
+
+// Delete a law and all of its provisions
+router.delete('/laws/:lawId', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const deleted = await handler.deleteLaw(req.params.lawId);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Law not found'
+      });
+    }
+    await reloadCheckerLaws();
+    return res.json({
+      success: true,
+      message: 'Law deleted successfully'
+    });
+  } catch (error) {
+    if (error instanceof LawError) {
+      return sendLawError(res, error);
+    }
+    console.error('Error deleting law:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete law'
+    });
+  }
+});
+
+// Add a provision to a law
+router.post('/laws/:lawId/provisions', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const provision = await handler.addProvision(req.params.lawId, req.body);
+    if (!provision) {
+      return res.status(404).json({
+        success: false,
+        error: 'Law not found'
+      });
+    }
+    await reloadCheckerLaws();
+    return res.status(201).json({
+      success: true,
+      data: provision,
+      message: 'Provision added successfully'
+    });
+  } catch (error) {
+    if (error instanceof LawError) {
+      return sendLawError(res, error);
+    }
+    console.error('Error adding provision:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to add provision'
+    });
+  }
+});
+
+// Change a provision's text or index
+router.put('/laws/:lawId/provisions/:index', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const provision = await handler.updateProvision(req.params.lawId, req.params.index, req.body);
+    if (!provision) {
+      return res.status(404).json({
+        success: false,
+        error: handler.getLawRecord(req.params.lawId) ? 'Provision not found' : 'Law not found'
+      });
+    }
+    await reloadCheckerLaws();
+    return res.json({
+      success: true,
+      data: provision,
+      message: 'Provision updated successfully'
+    });
+  } catch (error) {
+    if (error instanceof LawError) {
+      return sendLawError(res, error);
+    }
+    console.error('Error updating provision:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update provision'
+    });
+  }
+});
+
+// Delete a provision
+router.delete('/laws/:lawId/provisions/:index', async (req: Request, res: Response) => {
+  try {
+    const handler = await ensureDataReady();
+    const deleted = await handler.deleteProvision(req.params.lawId, req.params.index);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: handler.getLawRecord(req.params.lawId) ? 'Provision not found' : 'Law not found'
+      });
+    }
+    await reloadCheckerLaws();
+    return res.json({
+      success: true,
+      message: 'Provision deleted successfully'
+    });
+  } catch (error) {
+    if (error instanceof LawError) {
+      return sendLawError(res, error);
+    }
+    console.error('Error deleting provision:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete provision'
+    });
+  }
+});
+
 // Get feature by name
 router.get('/features/:name', async (req: Request, res: Response) => {
   try {
@@ -230,10 +554,17 @@ router.post('/compliance/check', async (req: Request, res: Response) => {
     
     return res.json({
       success: true,
-      data: result
+      data: saveRun(result)
     });
   } catch (error) {
     console.error('Error in compliance check:', error);
+    if (error instanceof BudgetExceededError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message,
+        usage: error.usage
+      });
+    }
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to perform compliance check'
@@ -244,7 +575,19 @@ router.post('/compliance/check', async (req: Request, res: Response) => {
 // Check compliance of single feature against all laws
 router.post('/compliance/check-feature', async (req: Request, res: Response) => {
   try {
-    const { feature_name, feature_description } = req.body;
+    const {
+      feature_name,
+      feature_description,
+      include_abbreviations,
+      include_corrections,
+      team,
+      budget,
+      assessment_mode,
+      screening_mode,
+      ensemble,
+      ensemble_voting,
+      abstention_threshold
+    } = req.body;
     
     if (!feature_name || !feature_description) {
       return res.status(400).json({ 
@@ -262,8 +605,9 @@ router.post('/compliance/check-feature', async (req: Request, res: Response) =>
     };
 
     // Get all laws and features
-    const allLaws = getDataHandler().getLaws();
-    const allFeatures = getDataHandler().getFeatures();
+    const handler = await ensureDataReady();
+    const allLaws = handler.getLaws();
+    const allFeatures = handler.getFeatures();
     
     console.log(`Total laws available: ${allLaws.length}`);
     console.log(`Total features available: ${allFeatures.length}`);
@@ -271,95 +615,66 @@ router.post('/compliance/check-feature', async (req: Request, res: Response) =>
     // Step 1: Screen laws for relevance
     console.log('Step 1: Screening laws for relevance...');
     const complianceChecker = getComplianceChecker();
-    const relevantLawTitles = await complianceChecker.screenLawsForRelevance(tempFeature, allLaws);
-    
-    if (relevantLawTitles.length === 0) {
-      console.log('No relevant laws found for this feature');
-      return res.json({
-        success: true,
-        data: {
-          results: [],
-          summary: {
-            total_features: 1,
-            total_laws: allLaws.length,
-            relevant_laws: 0,
-            compliant_count: 0,
-            non_compliant_count: 0,
-            review_required_count: 0,
-            overall_risk_score: 0
-          },
-          timestamp: new Date().toISOString()
-        }
-      });
+    const complianceRequest: ComplianceCheckRequest = {
+      // The UI sends both flags; other clients get glossary expansion and corrections unless they opt out
+      include_abbreviations: include_abbreviations !== false,
+      include_corrections: include_corrections !== false,
+      team,
+      assessment_mode,
+      screening_mode,
+      ensemble,
+      ensemble_voting,
+      abstention_threshold,
+      budget
+    };
+    const context = complianceChecker.createRunContext(complianceRequest);
+    const screening = await complianceChecker.screenLaws(tempFeature, allLaws, context);
+    if (screening.outcome !== 'succeeded') {
+      console.warn(`Screening ${screening.outcome} for ${feature_name}: ${screening.error || 'some laws were not screened'}`);
     }
 
     // Step 2: Filter laws to only relevant ones
-    const relevantLaws = allLaws.filter(law => relevantLawTitles.includes(law.law_title));
+    const relevantLaws = allLaws.filter(law => screening.relevant_provisions.includes(law.index));
     console.log(`Step 2: Found ${relevantLaws.length} relevant laws for compliance checking`);
 
     // Step 3: Check compliance against relevant laws only
     console.log('Step 3: Checking compliance against relevant laws...');
-    const results: ComplianceResult[] = [];
-    
-    for (const law of relevantLaws) {
-      try {
-        console.log(`Checking compliance for ${tempFeature.feature_name} against ${law.law_title}`);
-        const complianceRequest = {
-          include_abbreviations: true,
-          include_corrections: true
-        };
-        const result = await complianceChecker.checkFeatureCompliance(tempFeature, law, complianceRequest);
-        results.push(result);
-      } catch (error) {
-        console.error(`Error checking compliance for feature ${tempFeature.feature_name} against law ${law.law_title}:`, error);
-        
-        // Add fallback result for this law
-        results.push({
-          feature_name: tempFeature.feature_name,
-          law_title: law.law_title,
-          law_description: law.law_description,
-          compliance_status: "requires_review",
-          reasoning: "Error occurred during compliance check. Manual review required.",
-          recommendations: ["Review the feature implementation manually", "Check system logs for errors"]
-        });
-      }
-    }
-
-    // Calculate summary statistics
-    const compliantCount = results.filter(r => r.compliance_status === "compliant").length;
-    const nonCompliantCount = results.filter(r => r.compliance_status === "non-compliant").length;
-    const reviewRequiredCount = results.filter(r => r.compliance_status === "requires_review").length;
-    
-    const overallRiskScore = Math.round(
-      ((nonCompliantCount * 100) + (reviewRequiredCount * 50)) / relevantLaws.length
+    const results: ComplianceResult[] = await complianceChecker.assessFeature(
+      tempFeature,
+      relevantLaws,
+      complianceRequest,
+      undefined,
+      context
     );
 
+    const data: ComplianceCheckResponse = complianceChecker.buildResponse(
+      [{ feature: tempFeature, screening, relevantLaws, results }],
+      allLaws,
+      context
+    );
+    const { summary } = data;
+
     console.log('Compliance check completed successfully');
-    console.log(`Results: ${compliantCount} compliant, ${nonCompliantCount} non-compliant, ${reviewRequiredCount} need review`);
-    console.log(`Overall risk score: ${overallRiskScore}`);
+    console.log(`Results: ${summary.compliant_count} compliant, ${summary.non_compliant_count} non-compliant, ${summary.review_required_count} need review, ${summary.parse_failure_count} unparseable, ${summary.unscreened_laws} unscreened`);
+    console.log(`Overall risk score: ${summary.overall_risk_score}`);
 
-    res.json({
+    return res.json({
       success: true,
-      data: {
-        results,
-        summary: {
-          total_features: 1,
-          total_laws: allLaws.length,
-          relevant_laws: relevantLaws.length,
-          compliant_count: compliantCount,
-          non_compliant_count: nonCompliantCount,
-          review_required_count: reviewRequiredCount,
-          overall_risk_score: overallRiskScore
-        },
-        timestamp: new Date().toISOString()
-      }
+      data: saveRun(data)
     });
 
   } catch (error) {
     console.error('Error in compliance check:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Internal server error during compliance check' 
+    if (error instanceof BudgetExceededError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message,
+        usage: error.usage
+      });
+    }
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to perform compliance check'
     });
   }
 });
@@ -377,6 +692,15 @@ router.post('/feedback', async (req: Request, res: Response) => {
       });
     }
 
+    const statuses = ['compliant', 'non-compliant', 'requires_review'];
+    if ([feedback.original_status, feedback.corrected_status].some(status => status !== undefined && !statuses.includes(status))
+      || (feedback.original_confidence !== undefined && (typeof feedback.original_confidence !== 'number' || feedback.original_confidence < 0 || feedback.original_confidence > 1))) {
+      return res.status(400).json({
+        success: false,
+        error: `original_status and corrected_status must be one of ${statuses.join(', ')}, and original_confidence a number between 0 and 1`
+      });
+    }
+
     const result: FeedbackResponse = await getFeedbackHandler().submitFeedback(feedback);
     
     if (result.success) {
@@ -512,6 +836,444 @@ router.delete('/feedback/:feedbackId', (req: Request, res: Response) => {
   }
 });
 
+// Confidence calibration fitted from reviewer feedback
+router.get('/confidence/calibration', (req: Request, res: Response) => {
+  try {
+    const calibrator = getComplianceChecker().getCalibrator();
+    calibrator.refresh();
+    return res.json({
+      success: true,
+      data: calibrator.getSummary()
+    });
+  } catch (error) {
+    console.error('Error fetching confidence calibration:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch confidence calibration'
+    });
+  }
+});
+
+// Risk weights used to score compliance results
+router.get('/risk/weights', (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      data: getComplianceChecker().getRiskScorer().getWeights()
+    });
+  } catch (error) {
+    console.error('Error fetching risk weights:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch risk weights'
+    });
+  }
+});
+
+// Past compliance runs, newest first
+router.get('/results', (req: Request, res: Response) => {
+  try {
+    const limit = Number(req.query.limit) > 0 ? Number(req.query.limit) : 50;
+    const runs = getStorage().results.list(limit);
+    return res.json({
+      success: true,
+      data: runs,
+      count: runs.length
+    });
+  } catch (error) {
+    console.error('Error fetching compliance runs:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch compliance runs'
+    });
+  }
+});
+
+// Get the full response of a past compliance run
+router.get('/results/:id', (req: Request, res: Response) => {
+  try {
+    const run = getStorage().results.get(req.params.id);
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Compliance run not found'
+      });
+    }
+    return res.json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    console.error('Error fetching compliance run:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch compliance run'
+    });
+  }
+});
+
+// Deterministic compliance rules and any rules that failed to load
+router.get('/rules', (req: Request, res: Response) => {
+  try {
+    const rules = getComplianceChecker().getRuleEngine();
+    return res.json({
+      success: true,
+      data: rules.getRules(),
+      errors: rules.getErrors(),
+      count: rules.getRules().length
+    });
+  } catch (error) {
+    console.error('Error fetching rules:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch rules'
+    });
+  }
+});
+
+// Get assessment cache statistics and entries
+router.get('/cache', (req: Request, res: Response) => {
+  try {
+    const cache = getComplianceChecker().getCache();
+    if (!cache) {
+      return res.json({
+        success: true,
+        data: { enabled: false, stats: null, entries: [] },
+        count: 0
+      });
+    }
+
+    const entries = cache.list().map(({ result, ...entry }) => ({
+      ...entry,
+      compliance_status: result.compliance_status
+    }));
+    return res.json({
+      success: true,
+      data: { enabled: true, stats: cache.getStats(), entries },
+      count: entries.length
+    });
+  } catch (error) {
+    console.error('Error fetching cache:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch cache'
+    });
+  }
+});
+
+// Get a single cached assessment
+router.get('/cache/:key', (req: Request, res: Response) => {
+  try {
+    const entry = getComplianceChecker().getCache()?.getEntry(req.params.key);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cache entry not found'
+      });
+    }
+    return res.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    console.error('Error fetching cache entry:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch cache entry'
+    });
+  }
+});
+
+// Purge the cache, optionally only for a feature and/or law
+router.delete('/cache', (req: Request, res: Response) => {
+  try {
+    const cache = getComplianceChecker().getCache();
+    const removed = cache ? cache.purge({
+      feature_name: typeof req.query.feature_name === 'string' ? req.query.feature_name : undefined,
+      law_title: typeof req.query.law_title === 'string' ? req.query.law_title : undefined
+    }) : 0;
+    return res.json({
+      success: true,
+      message: `Removed ${removed} cache entries`,
+      count: removed
+    });
+  } catch (error) {
+    console.error('Error purging cache:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to purge cache'
+    });
+  }
+});
+
+// Delete a single cached assessment
+router.delete('/cache/:key', (req: Request, res: Response) => {
+  try {
+    const success = getComplianceChecker().getCache()?.delete(req.params.key) || false;
+    if (success) {
+      return res.json({
+        success: true,
+        message: 'Cache entry deleted successfully'
+      });
+    } else {
+      return res.status(404).json({
+        success: false,
+        error: 'Cache entry not found'
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting cache entry:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete cache entry'
+    });
+  }
+});
+
+// List glossary entries, optionally filtered by scope, scope value or term
+router.get('/glossary', (req: Request, res: Response) => {
+  try {
+    const entries = getComplianceChecker().getGlossary().list({
+      scope: typeof req.query.scope === 'string' ? req.query.scope as GlossaryScope : undefined,
+      scope_value: typeof req.query.scope_value === 'string' ? req.query.scope_value : undefined,
+      term: typeof req.query.term === 'string' ? req.query.term : undefined
+    });
+    return res.json({
+      success: true,
+      data: entries,
+      count: entries.length
+    });
+  } catch (error) {
+    console.error('Error fetching glossary:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch glossary'
+    });
+  }
+});
+
+// Report acronyms and codenames in a text that have no definition
+router.post('/glossary/scan', async (req: Request, res: Response) => {
+  try {
+    const { text, team, jurisdiction } = req.body;
+    if (!text) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: text'
+      });
+    }
+    const warnings = await findUndefinedTerms(text, { team, jurisdiction });
+    return res.json({
+      success: true,
+      data: warnings,
+      count: warnings.length
+    });
+  } catch (error) {
+    console.error('Error scanning glossary terms:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to scan text'
+    });
+  }
+});
+
+// Get a glossary entry
+router.get('/glossary/:id', (req: Request, res: Response) => {
+  try {
+    const entry = getComplianceChecker().getGlossary().get(req.params.id);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Glossary entry not found'
+      });
+    }
+    return res.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    console.error('Error fetching glossary entry:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch glossary entry'
+    });
+  }
+});
+
+// Define a term
+router.post('/glossary', (req: Request, res: Response) => {
+  try {
+    const request: GlossaryEntryRequest = req.body;
+    const entry = getComplianceChecker().getGlossary().create(request);
+    return res.status(201).json({
+      success: true,
+      data: entry,
+      message: 'Glossary entry created successfully'
+    });
+  } catch (error) {
+    if (error instanceof GlossaryError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Error creating glossary entry:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create glossary entry'
+    });
+  }
+});
+
+// Update a term's definition or scope
+router.put('/glossary/:id', (req: Request, res: Response) => {
+  try {
+    const entry = getComplianceChecker().getGlossary().update(req.params.id, req.body);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Glossary entry not found'
+      });
+    }
+    return res.json({
+      success: true,
+      data: entry,
+      message: 'Glossary entry updated successfully'
+    });
+  } catch (error) {
+    if (error instanceof GlossaryError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Error updating glossary entry:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update glossary entry'
+    });
+  }
+});
+
+// Delete a glossary entry
+router.delete('/glossary/:id', (req: Request, res: Response) => {
+  try {
+    const success = getComplianceChecker().getGlossary().delete(req.params.id);
+    if (success) {
+      return res.json({
+        success: true,
+        message: 'Glossary entry deleted successfully'
+      });
+    } else {
+      return res.status(404).json({
+        success: false,
+        error: 'Glossary entry not found'
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting glossary entry:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete glossary entry'
+    });
+  }
+});
+
+// List prompt templates with their active version
+router.get('/prompts', (req: Request, res: Response) => {
+  try {
+    const templates = getComplianceChecker().getPromptRegistry().list().map(template => ({
+      name: template.name,
+      variables: template.variables,
+      active_version: template.active_version,
+      versions: template.versions.map(({ version, description, created_at }) => ({ version, description, created_at }))
+    }));
+    return res.json({
+      success: true,
+      data: templates,
+      count: templates.length
+    });
+  } catch (error) {
+    console.error('Error fetching prompts:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch prompts'
+    });
+  }
+});
+
+// Get a prompt template with the text of every version
+router.get('/prompts/:name', (req: Request, res: Response) => {
+  try {
+    const template = getComplianceChecker().getPromptRegistry().get(req.params.name);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+    }
+    return res.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Error fetching prompt:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch prompt'
+    });
+  }
+});
+
+// Create a new version of a prompt template
+router.post('/prompts/:name/versions', (req: Request, res: Response) => {
+  try {
+    const request: CreatePromptVersionRequest = req.body;
+    const version = getComplianceChecker().getPromptRegistry().createVersion(req.params.name, request);
+    return res.status(201).json({
+      success: true,
+      data: version,
+      message: `Created ${req.params.name}@${version.version}`
+    });
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Error creating prompt version:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create prompt version'
+    });
+  }
+});
+
+// Make a version the one used for new compliance checks
+router.post('/prompts/:name/versions/:version/activate', (req: Request, res: Response) => {
+  try {
+    const template = getComplianceChecker().getPromptRegistry().activate(req.params.name, Number(req.params.version));
+    return res.json({
+      success: true,
+      data: { name: template.name, active_version: template.active_version },
+      message: `Activated ${template.name}@${template.active_version}`
+    });
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Error activating prompt version:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to activate prompt version'
+    });
+  }
+});
+
 // Refresh data endpoint
 router.post('/data/refresh', async (req: Request, res: Response) => {
   try {
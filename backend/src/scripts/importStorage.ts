@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { createFileStorage } from '../services/fileStorage';
+import { closeStorage, getStorage, getStorageOptions } from '../services/storage';
+import { importStorage } from '../services/storageImporter';
+
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+/**
+ * One-shot copy of the CSV and JSON data files into the SQLite database at
+ * SQLITE_PATH, or at the path given as the first argument
+ */
+async function main(): Promise<void> {
+  const sqlitePath = process.argv[2] || getStorageOptions().sqlitePath;
+  console.log(`Importing file storage into ${path.resolve(sqlitePath)}`);
+
+  const report = await importStorage(createFileStorage(), getStorage({ backend: 'sqlite', sqlitePath }));
+  console.log(`Imported ${report.laws} provisions, ${report.features} features, ${report.feedback} feedback entries and ${report.results} runs`);
+  if (report.errors.length > 0) {
+    console.warn(`Skipped:\n${report.errors.join('\n')}`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(closeStorage);
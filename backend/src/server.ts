@@ -5,6 +5,7 @@ import dotenv from 'dotenv';
 import path from 'path';
 import apiRoutes from './routes/api';
 import { getCSVPath } from './utils/pathUtils';
+import { getStorage } from './services/storage';
 
 // Load environment variables from the backend directory
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
@@ -105,17 +106,24 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
+// Open storage before taking requests, so SQLite migrations run at startup
+const storage = getStorage();
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Regulium-Z Backend server running on port ${PORT}`);
   console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 API Base URL: http://localhost:${PORT}/api`);
   console.log(`🌐 CORS Origin: ${process.env.CORS_ORIGIN || 'http://localhost:3000'}`);
-  console.log(`🤖 OpenAI Model: ${process.env.OPENAI_MODEL || 'gpt-4'}`);
+  console.log(`🤖 LLM Provider: ${process.env.LLM_PROVIDER || 'openrouter'}`);
+  
+  console.log(`💾 Storage: ${storage.backend}`);
   
-  // Use shared path utility function
-  console.log(`📁 Laws CSV: ${getCSVPath('laws.csv')}`);
-  console.log(`📁 Features CSV: ${getCSVPath('features.csv')}`);
+  if (storage.backend === 'file') {
+    // Use shared path utility function
+    console.log(`📁 Laws CSV: ${getCSVPath('laws.csv')}`);
+    console.log(`📁 Features CSV: ${getCSVPath('features.csv')}`);
+  }
 });
 
 export default app;
@@ -0,0 +1,61 @@
+import { getNumberEnv } from '../utils/envUtils';
+
+export interface BatchLimits {
+  maxInputTokens: number;
+  maxOutputTokens: number;
+  outputTokensPerItem: number;
+}
+
+/**
+ * Batch limits from ASSESSMENT_BATCH_MAX_INPUT_TOKENS, ASSESSMENT_BATCH_MAX_OUTPUT_TOKENS
+ * and ASSESSMENT_BATCH_OUTPUT_TOKENS_PER_LAW
+ */
+export function getBatchLimits(overrides: Partial<BatchLimits> = {}): BatchLimits {
+  return {
+    maxInputTokens: getNumberEnv('ASSESSMENT_BATCH_MAX_INPUT_TOKENS', 8000),
+    maxOutputTokens: getNumberEnv('ASSESSMENT_BATCH_MAX_OUTPUT_TOKENS', 4000),
+    outputTokensPerItem: getNumberEnv('ASSESSMENT_BATCH_OUTPUT_TOKENS_PER_LAW', 400),
+    ...overrides
+  };
+}
+
+/**
+ * Rough token count (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Greedily split items into consecutive batches so that each batch's prompt
+ * (`baseTokens` plus every item's cost) and expected output stay within the limits.
+ * An item that is too large on its own still gets a batch of one.
+ */
+export function planBatches<T>(
+  items: T[],
+  itemTokens: (item: T) => number,
+  baseTokens: number,
+  limits: BatchLimits
+): T[][] {
+  const maxItemsByOutput = Math.max(1, Math.floor(limits.maxOutputTokens / limits.outputTokensPerItem));
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = baseTokens;
+
+  for (const item of items) {
+    const cost = itemTokens(item);
+    const overInput = currentTokens + cost > limits.maxInputTokens;
+    if (current.length > 0 && (overInput || current.length >= maxItemsByOutput)) {
+      batches.push(current);
+      current = [];
+      currentTokens = baseTokens;
+    }
+    current.push(item);
+    currentTokens += cost;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
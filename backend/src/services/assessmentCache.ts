@@ -0,0 +1,136 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssessmentCacheEntry, AssessmentCacheKeyInput, AssessmentCacheStats, ComplianceResult } from '../types';
+
+/**
+ * Disk-backed cache of compliance assessments. Entries are content-addressed:
+ * the key is a hash of every input that can change the verdict, so editing a
+ * feature description, a provision, an implemented correction, the prompt or
+ * the model automatically produces a new key instead of a stale hit.
+ */
+export class AssessmentCache {
+  private cachePath: string;
+  private entries: { [key: string]: AssessmentCacheEntry } = {};
+  private hits = 0;
+  private misses = 0;
+
+  constructor(cachePath?: string) {
+    this.cachePath = path.resolve(cachePath || process.env.ASSESSMENT_CACHE_PATH || './src/data/assessment-cache.json');
+    this.load();
+  }
+
+  public static isEnabled(): boolean {
+    return process.env.ASSESSMENT_CACHE_ENABLED !== 'false';
+  }
+
+  public static computeKey(input: AssessmentCacheKeyInput): string {
+    const normalized = {
+      feature_description: input.feature_description.trim(),
+      law_description: input.law_description.trim(),
+      corrections: [...input.corrections].map(c => c.trim()).sort(),
+      prompt_version: input.prompt_version,
+      model: input.model,
+      // Omitted when empty so keys from before glossary expansion stay valid
+      ...(input.glossary && input.glossary.length > 0 ? { glossary: [...input.glossary].sort() } : {})
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.cachePath)) {
+        const data = JSON.parse(fs.readFileSync(this.cachePath, 'utf8'));
+        this.entries = data.entries || {};
+      }
+    } catch (error) {
+      console.warn('Could not load assessment cache, starting empty:', error);
+      this.entries = {};
+    }
+  }
+
+  private persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(this.cachePath, JSON.stringify({
+        entries: this.entries,
+        lastUpdated: new Date().toISOString()
+      }, null, 2));
+    } catch (error) {
+      console.error('Error writing assessment cache:', error);
+    }
+  }
+
+  public get(key: string): ComplianceResult | undefined {
+    const entry = this.entries[key];
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    entry.hits++;
+    entry.last_hit_at = new Date().toISOString();
+    return { ...entry.result };
+  }
+
+  public set(key: string, input: AssessmentCacheKeyInput, result: ComplianceResult): void {
+    this.entries[key] = {
+      key,
+      feature_name: result.feature_name,
+      law_title: result.law_title,
+      prompt_version: input.prompt_version,
+      model: input.model,
+      result,
+      created_at: new Date().toISOString(),
+      hits: 0
+    };
+    this.persist();
+  }
+
+  public getEntry(key: string): AssessmentCacheEntry | undefined {
+    return this.entries[key];
+  }
+
+  public list(): AssessmentCacheEntry[] {
+    return Object.values(this.entries);
+  }
+
+  public delete(key: string): boolean {
+    if (!this.entries[key]) {
+      return false;
+    }
+    delete this.entries[key];
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Remove all entries, or only those matching the given feature / law
+   * @returns Number of entries removed
+   */
+  public purge(filter: { feature_name?: string; law_title?: string } = {}): number {
+    const before = Object.keys(this.entries).length;
+    if (!filter.feature_name && !filter.law_title) {
+      this.entries = {};
+    } else {
+      for (const [key, entry] of Object.entries(this.entries)) {
+        const featureMatches = !filter.feature_name || entry.feature_name === filter.feature_name;
+        const lawMatches = !filter.law_title || entry.law_title === filter.law_title;
+        if (featureMatches && lawMatches) {
+          delete this.entries[key];
+        }
+      }
+    }
+    this.persist();
+    return before - Object.keys(this.entries).length;
+  }
+
+  public getStats(): AssessmentCacheStats {
+    return {
+      path: this.cachePath,
+      entries: Object.keys(this.entries).length,
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { JsonSchema, LLMResponseSchema } from '../types';
+import { extractJson, validateJsonSchema } from '../utils/jsonSchema';
+
+/**
+ * Shape the assessment model must answer with. Sent to providers that support
+ * structured output and used to validate every response at runtime.
+ */
+export const COMPLIANCE_ASSESSMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    compliance_status: {
+      type: 'string',
+      enum: ['compliant', 'non-compliant', 'requires_review']
+    },
+    reasoning: {
+      type: 'string',
+      minLength: 1
+    },
+    recommendations: {
+      type: 'array',
+      items: { type: 'string' }
+    },
+    confidence: {
+      type: 'number',
+      minimum: 0,
+      maximum: 1
+    },
+    // Optional so that templates written before evidence was requested stay valid;
+    // strict structured output requires it (see toStrictSchema), so the model sends [] instead
+    evidence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          feature_quote: { type: 'string', minLength: 1 },
+          law_quote: { type: 'string' }
+        },
+        required: ['feature_quote', 'law_quote'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['compliance_status', 'reasoning', 'recommendations', 'confidence'],
+  additionalProperties: false
+};
+
+export const COMPLIANCE_ASSESSMENT_RESPONSE: LLMResponseSchema = {
+  name: 'compliance_assessment',
+  schema: COMPLIANCE_ASSESSMENT_SCHEMA
+};
+
+/**
+ * Batched assessments: one entry per provision, keyed by the provision id
+ * given in the prompt
+ */
+export const BATCH_ASSESSMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    assessments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          provision_id: { type: 'string', minLength: 1 },
+          ...COMPLIANCE_ASSESSMENT_SCHEMA.properties
+        },
+        required: ['provision_id', ...COMPLIANCE_ASSESSMENT_SCHEMA.required!],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['assessments'],
+  additionalProperties: false
+};
+
+export const BATCH_ASSESSMENT_RESPONSE: LLMResponseSchema = {
+  name: 'batch_compliance_assessment',
+  schema: BATCH_ASSESSMENT_SCHEMA
+};
+
+const screeningSchema = (idProperty: string): JsonSchema => ({
+  type: 'object',
+  properties: {
+    screenings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          [idProperty]: { type: 'string', minLength: 1 },
+          relevant: { type: 'boolean' },
+          relevance_score: { type: 'number', minimum: 0, maximum: 1 },
+          rationale: { type: 'string', minLength: 1 }
+        },
+        required: [idProperty, 'relevant', 'relevance_score', 'rationale'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['screenings'],
+  additionalProperties: false
+});
+
+/**
+ * Relevance screening: one entry per provision, keyed by the provision id given in the prompt
+ */
+export const SCREENING_SCHEMA: JsonSchema = screeningSchema('provision_id');
+
+export const SCREENING_RESPONSE: LLMResponseSchema = {
+  name: 'relevance_screening',
+  schema: SCREENING_SCHEMA
+};
+
+/**
+ * Law-level screening answers from screening@2, one entry per law id
+ */
+export const LAW_SCREENING_SCHEMA: JsonSchema = screeningSchema('law_id');
+
+export interface ParsedModelOutput<T> {
+  value?: T;
+  errors: string[];
+}
+
+/**
+ * Extract and validate a JSON answer from raw model output
+ */
+export function parseModelOutput<T>(content: string, schema: JsonSchema): ParsedModelOutput<T> {
+  const parsed = extractJson(content);
+  if (parsed === undefined) {
+    return { errors: ['Response is not valid JSON'] };
+  }
+  const errors = validateJsonSchema(parsed, schema);
+  return errors.length === 0 ? { value: parsed as T, errors } : { errors };
+}
+
+/**
+ * Follow-up message asking the model to fix an answer that failed validation
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous response could not be used because it did not match the required JSON schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with only a JSON object that fixes these problems. Do not add any text before or after the JSON.`;
+}
@@ -0,0 +1,139 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMRequest, LLMResponse, LLMStage } from '../types';
+import { LLMProvider } from './llmProvider';
+
+export type CassetteMode = 'replay' | 'record';
+
+export interface CassetteEntry {
+  stage: LLMStage;
+  prompt_hash: string;
+  request: LLMRequest;
+  response: Omit<LLMResponse, 'raw'>;
+  recorded_at: string;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: { [promptHash: string]: CassetteEntry };
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly promptHash: string, stage: LLMStage, cassettePath: string) {
+    super(`No ${stage} cassette entry for prompt hash ${promptHash} in ${cassettePath}. Re-run with LLM_CASSETTE_MODE=record to capture it.`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Stable hash of everything that shapes the response - model, sampling,
+ * response schema and prompt messages - used as the cassette key
+ */
+export function hashPrompt(request: LLMRequest, model: string): string {
+  const normalized = {
+    model,
+    temperature: request.temperature ?? null,
+    response_schema: request.response_schema?.name ?? null,
+    messages: request.messages.map(message => ({ role: message.role, content: message.content }))
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * JSON file holding recorded responses. Stores are shared per path so that the
+ * screening and assessment providers write into the same cassette.
+ */
+export class CassetteStore {
+  private static stores = new Map<string, CassetteStore>();
+  private cassette: Cassette;
+
+  private constructor(public readonly cassettePath: string) {
+    this.cassette = this.load();
+  }
+
+  public static open(cassettePath: string): CassetteStore {
+    const resolved = path.resolve(cassettePath);
+    let store = CassetteStore.stores.get(resolved);
+    if (!store) {
+      store = new CassetteStore(resolved);
+      CassetteStore.stores.set(resolved, store);
+    }
+    return store;
+  }
+
+  private load(): Cassette {
+    try {
+      if (fs.existsSync(this.cassettePath)) {
+        const data = JSON.parse(fs.readFileSync(this.cassettePath, 'utf8'));
+        return { version: 1, entries: data.entries || {} };
+      }
+    } catch (error) {
+      console.warn(`Could not load cassette ${this.cassettePath}:`, error);
+    }
+    return { version: 1, entries: {} };
+  }
+
+  public get(promptHash: string): CassetteEntry | undefined {
+    return this.cassette.entries[promptHash];
+  }
+
+  public put(entry: CassetteEntry): void {
+    this.cassette.entries[entry.prompt_hash] = entry;
+    fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+    fs.writeFileSync(this.cassettePath, JSON.stringify(this.cassette, null, 2));
+  }
+
+  public size(): number {
+    return Object.keys(this.cassette.entries).length;
+  }
+}
+
+/**
+ * Local stand-in for a model provider. In replay mode it serves recorded
+ * responses and never touches the network; in record mode it forwards to the
+ * real provider and captures every response. Replay needs the model the
+ * entries were recorded with, since it is part of the key.
+ */
+export class CassetteProvider implements LLMProvider {
+  public readonly name = 'cassette';
+  public readonly model: string;
+  private store: CassetteStore;
+
+  constructor(
+    private readonly mode: CassetteMode,
+    private readonly stage: LLMStage,
+    cassettePath: string,
+    private readonly inner?: LLMProvider,
+    model?: string
+  ) {
+    if (mode === 'record' && !inner) {
+      throw new Error('Cassette record mode requires an underlying provider');
+    }
+    this.store = CassetteStore.open(cassettePath);
+    this.model = inner?.model || model || 'cassette';
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    const promptHash = hashPrompt(request, this.model);
+
+    if (this.mode === 'replay') {
+      const entry = this.store.get(promptHash);
+      if (!entry) {
+        throw new CassetteMissError(promptHash, this.stage, this.store.cassettePath);
+      }
+      return { ...entry.response, raw: { cassette: promptHash } };
+    }
+
+    const response = await this.inner!.complete(request);
+    const { raw, ...recorded } = response;
+    this.store.put({
+      stage: this.stage,
+      prompt_hash: promptHash,
+      request,
+      response: recorded,
+      recorded_at: new Date().toISOString()
+    });
+    return response;
+  }
+}
@@ -1,42 +1,179 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { DataHandler } from './dataHandler';
 import { FeedbackHandler } from './feedbackHandler';
+import { LLMProvider, createLLMProvider } from './llmProvider';
+import { SchedulerOptions, TaskScheduler, getSchedulerOptions } from './taskScheduler';
+import { AssessmentCache } from './assessmentCache';
+import { BudgetExceededError, UsageTracker } from './usageTracker';
+import { BatchLimits, estimateTokens, getBatchLimits, planBatches } from './assessmentBatcher';
+import { PromptRegistry, RenderedPrompt } from './promptRegistry';
+import { Glossary } from './glossary';
+import { PrefilterOptions, getPrefilterOptions } from './lawIndex';
+import { EnsembleOptions, getEnsembleOptions, isEnsembleVoting, tallyVotes } from './ensemble';
+import { CalibrationOptions, ConfidenceCalibrator } from './confidenceCalibrator';
+import { verifyEvidence } from './evidence';
+import { RiskItem, RiskScorer } from './riskScorer';
+import { RuleEngine } from './ruleEngine';
+import { detectInjection, escapeFences } from './promptInjection';
+import { RedactionOptions, Redactor, restoreStrings } from './redactor';
+import {
+  BATCH_ASSESSMENT_RESPONSE,
+  COMPLIANCE_ASSESSMENT_RESPONSE,
+  ParsedModelOutput,
+  LAW_SCREENING_SCHEMA,
+  SCREENING_RESPONSE,
+  buildRepairPrompt,
+  parseModelOutput
+} from './assessmentSchema';
+import { getNumberEnv } from '../utils/envUtils';
 import { 
+  AssessmentCacheKeyInput,
+  AssessmentMode,
   ComplianceCheckRequest, 
   ComplianceCheckResponse, 
   ComplianceResult,
+  EnsembleVote,
+  EnsembleVoting,
+  EvidenceClaim,
   Law,
-  Feature 
+  Feature,
+  FeatureScreening,
+  GlossaryContext,
+  GlossaryExpansion,
+  InjectionFinding,
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMResponseSchema,
+  LLMStage,
+  ProvisionScreening,
+  RiskWeights,
+  ScreeningMode,
+  ScreeningOutcome
 } from '../types';
 
+export interface ComplianceCheckerOptions {
+  screeningProvider?: LLMProvider;
+  assessmentProvider?: LLMProvider;
+  scheduler?: Partial<SchedulerOptions>;
+  cache?: AssessmentCache | null;
+  maxRepairAttempts?: number;
+  batchLimits?: Partial<BatchLimits>;
+  prompts?: PromptRegistry;
+  glossary?: Glossary;
+  prefilter?: Partial<PrefilterOptions>;
+  ensemble?: Partial<EnsembleOptions>;
+  // Ensemble models to use instead of those built from ensemble.models
+  ensembleProviders?: LLMProvider[];
+  calibration?: Partial<CalibrationOptions>;
+  abstentionThreshold?: number;
+  riskWeights?: Partial<RiskWeights>;
+  rules?: RuleEngine;
+  redaction?: Partial<RedactionOptions>;
+}
+
+/**
+ * State shared by every model call of one compliance run
+ */
+export interface RunContext {
+  usage: UsageTracker;
+  // Expand glossary terms in screening prompts (include_abbreviations)
+  includeGlossary: boolean;
+  // Team whose glossary definitions apply in screening prompts (team)
+  team?: string;
+  screeningMode: ScreeningMode;
+  // Masks personal data and secrets in every prompt of the run
+  redaction: Redactor;
+}
+
+type AssessmentOutput = Pick<ComplianceResult, 'compliance_status' | 'reasoning' | 'recommendations' | 'confidence'> & {
+  evidence?: EvidenceClaim[];
+};
+
+/**
+ * One feature's screening and assessment within a run
+ */
+export interface FeatureRun {
+  feature: Feature;
+  screening: FeatureScreening;
+  relevantLaws: Law[];
+  results: ComplianceResult[];
+}
+
+interface EnsembleMember {
+  label: string;
+  provider: LLMProvider;
+  temperature: number;
+}
+
+interface BatchAssessmentOutput {
+  assessments: Array<AssessmentOutput & { provision_id: string }>;
+}
+
+type ScreeningAnswer = Pick<ProvisionScreening, 'relevant' | 'relevance_score' | 'rationale'>;
+
+interface ScreeningOutput<IdKey extends string> {
+  screenings: Array<ScreeningAnswer & { [key in IdKey]: string }>;
+}
+
+
 export class ComplianceChecker {
   private dataHandler: DataHandler;
   private feedbackHandler: FeedbackHandler;
-  private abbreviations: { [key: string]: string } = {};
+  private glossary: Glossary;
+  private screeningProvider: LLMProvider;
+  private assessmentProvider: LLMProvider;
+  private schedulerOptions: SchedulerOptions;
+  private cache: AssessmentCache | null;
+  private maxRepairAttempts: number;
+  private batchLimits: BatchLimits;
+  private prompts: PromptRegistry;
+  private prefilterOptions: PrefilterOptions;
+  private ensembleOptions: EnsembleOptions;
+  private ensembleProviders?: LLMProvider[];
+  private ensembleMembers?: EnsembleMember[];
+  private calibrator: ConfidenceCalibrator;
+  private abstentionThreshold: number;
+  private riskScorer: RiskScorer;
+  private rules: RuleEngine;
+  private redactionOptions?: Partial<RedactionOptions>;
 
-  constructor() {
+  constructor(options: ComplianceCheckerOptions = {}) {
     this.dataHandler = new DataHandler();
     this.feedbackHandler = new FeedbackHandler();
-    this.loadAbbreviations();
+    this.screeningProvider = options.screeningProvider || createLLMProvider('screening');
+    this.assessmentProvider = options.assessmentProvider || createLLMProvider('assessment');
+    this.schedulerOptions = getSchedulerOptions(options.scheduler);
+    this.cache = options.cache !== undefined
+      ? options.cache
+      : (AssessmentCache.isEnabled() ? new AssessmentCache() : null);
+    this.maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? getNumberEnv('ASSESSMENT_REPAIR_ATTEMPTS', 1));
+    this.batchLimits = getBatchLimits(options.batchLimits);
+    this.prompts = options.prompts || new PromptRegistry();
+    this.glossary = options.glossary || new Glossary();
+    this.prefilterOptions = getPrefilterOptions(options.prefilter);
+    this.ensembleOptions = getEnsembleOptions(options.ensemble);
+    this.ensembleProviders = options.ensembleProviders;
+    this.calibrator = new ConfidenceCalibrator(this.feedbackHandler, options.calibration);
+    this.abstentionThreshold = options.abstentionThreshold ?? getNumberEnv('CONFIDENCE_ABSTAIN_THRESHOLD', 0.5);
+    this.riskScorer = new RiskScorer(options.riskWeights);
+    this.rules = options.rules || RuleEngine.load();
+    this.redactionOptions = options.redaction;
     
     // Log configuration for debugging
     console.log('ComplianceChecker initialized with:');
-    console.log('- API Base URL:', process.env.OPENAI_API_BASE);
-    console.log('- Model:', process.env.OPENAI_MODEL);
-    console.log('- API Key exists:', !!process.env.OPENAI_API_KEY);
+    console.log('- Screening:', `${this.screeningProvider.name} / ${this.screeningProvider.model}`);
+    console.log('- Assessment:', `${this.assessmentProvider.name} / ${this.assessmentProvider.model}`);
+    console.log('- Prompts:', this.prompts.list().map(t => `${t.name}@${t.active_version}`).join(', '));
+    console.log('- Rules:', this.rules.getRules().length);
+    console.log('- Assessment cache:', this.cache ? this.cache.getStats().path : 'disabled');
+    console.log('- Scheduling:', `${this.schedulerOptions.ordering}, concurrency ${this.schedulerOptions.concurrency}, max ${this.schedulerOptions.maxPerGroup} per feature`);
   }
 
-  private loadAbbreviations(): void {
-    try {
-      const abbreviationsPath = path.resolve(process.env.ABBREVIATIONS_JSON_PATH || './src/data/abbreviations.json');
-      if (fs.existsSync(abbreviationsPath)) {
-        const data = fs.readFileSync(abbreviationsPath, 'utf8');
-        this.abbreviations = JSON.parse(data);
-      }
-    } catch (error) {
-      console.warn('Could not load abbreviations:', error);
-    }
+  /**
+   * Glossary terms used in the feature, when the request asks for abbreviation expansion
+   */
+  private expandTerms(feature: Feature, enabled: boolean | undefined, glossaryContext: GlossaryContext = {}): GlossaryExpansion[] {
+    return enabled ? this.glossary.findTerms(`${feature.feature_name}\n${feature.feature_description}`, glossaryContext) : [];
   }
 
   public async checkCompliance(request: ComplianceCheckRequest): Promise<ComplianceCheckResponse> {
@@ -53,131 +190,488 @@ export class ComplianceChecker {
         throw new Error('No laws or features found. Please check your data files.');
       }
 
-      const results: ComplianceResult[] = [];
-      let compliantCount = 0;
-      let nonCompliantCount = 0;
-      let reviewRequiredCount = 0;
-      let totalRelevantLaws = 0;
-
       // Filter features and laws based on request
       const targetFeatures = request.features 
         ? features.filter(f => request.features!.includes(f.feature_name))
         : features;
       
-      const targetLaws = request.laws
-        ? laws.filter(l => request.laws!.includes(l.law_title))
-        : laws;
+      const targetLaws = laws.filter(l =>
+        (!request.laws || request.laws.includes(l.law_id) || request.laws.includes(l.law_title))
+        && (!request.provisions || request.provisions.includes(l.index))
+      );
 
-      // Check each feature against relevant laws only
-      for (const feature of targetFeatures) {
+      // Screen and assess all features through one bounded-concurrency scheduler.
+      // Results are collected per feature so the output order matches a sequential run.
+      const scheduler = new TaskScheduler(this.schedulerOptions);
+      const context = this.createRunContext(request);
+      const featureRuns = await Promise.all(targetFeatures.map(async feature => {
         // Screen laws for relevance to this specific feature
-        const relevantLawTitles = await this.screenLawsForRelevance(feature, targetLaws);
-        const relevantLaws = targetLaws.filter(law => relevantLawTitles.includes(law.law_title));
+        const screening = await scheduler.schedule(
+          feature.feature_name,
+          () => this.screenLaws(feature, targetLaws, context)
+        );
+        const relevantLaws = targetLaws.filter(law => screening.relevant_provisions.includes(law.index));
         
         console.log(`Feature "${feature.feature_name}": ${relevantLaws.length} relevant laws out of ${targetLaws.length} total laws`);
-        totalRelevantLaws += relevantLaws.length;
 
         // Check feature against only relevant laws
-        for (const law of relevantLaws) {
-          const result = await this.checkFeatureCompliance(feature, law, request);
-          results.push(result);
-
-          // Update counters
-          switch (result.compliance_status) {
-            case 'compliant':
-              compliantCount++;
-              break;
-            case 'non-compliant':
-              nonCompliantCount++;
-              break;
-            case 'requires_review':
-              reviewRequiredCount++;
-              break;
-          }
-        }
-      }
+        const featureResults = await this.assessFeature(feature, relevantLaws, request, scheduler, context);
+        return { feature, screening, relevantLaws, results: featureResults };
+      }));
 
-      return {
-        results,
-        summary: {
-          total_features: targetFeatures.length,
-          total_laws: targetLaws.length,
-          relevant_laws: totalRelevantLaws,
-          compliant_count: compliantCount,
-          non_compliant_count: nonCompliantCount,
-          review_required_count: reviewRequiredCount,
-          overall_risk_score: this.calculateRiskScore(compliantCount, nonCompliantCount, reviewRequiredCount, totalRelevantLaws)
-        },
-        timestamp: new Date().toISOString()
-      };
+      return this.buildResponse(featureRuns, targetLaws, context);
     } catch (error) {
       console.error('Error in compliance check:', error);
       throw error;
     }
   }
 
+  /**
+   * Assess one feature against a list of laws, running the model calls through
+   * the scheduler. Results are returned in the order of `laws`.
+   */
+  public async assessFeature(
+    feature: Feature,
+    laws: Law[],
+    request: ComplianceCheckRequest,
+    scheduler: TaskScheduler = new TaskScheduler(this.schedulerOptions),
+    context: RunContext = this.createRunContext(request)
+  ): Promise<ComplianceResult[]> {
+    // Rules run alongside the model and set the status, unless the input looks like a prompt injection
+    const results = await this.assessFeatureWithModel(feature, laws, request, scheduler, context);
+    return results.map((result, index) => this.flagInjection(
+      this.applyRules(feature, laws[index], result),
+      this.detectInputInjection(feature, this.getCorrectionMessages(feature, laws[index], request))
+    ));
+  }
+
+  private async assessFeatureWithModel(
+    feature: Feature,
+    laws: Law[],
+    request: ComplianceCheckRequest,
+    scheduler: TaskScheduler,
+    context: RunContext
+  ): Promise<ComplianceResult[]> {
+    const assessSingle = (law: Law) =>
+      scheduler.schedule(feature.feature_name, () => this.checkFeatureCompliance(feature, law, request, context));
+
+    // Ensemble members each assess one pair at a time
+    if (this.getAssessmentMode(request) !== 'batched' || laws.length < 2 || this.isEnsembleEnabled(request)) {
+      return Promise.all(laws.map(assessSingle));
+    }
+
+    const results = new Map<Law, ComplianceResult>();
+    // Glossary definitions can depend on the jurisdiction, as in single mode, so a
+    // batch only mixes provisions whose jurisdictions give the same expansions
+    const groups = new Map<string, { expansions: GlossaryExpansion[]; pending: Law[] }>();
+    const expansionsByJurisdiction = new Map<string, GlossaryExpansion[]>();
+    for (const law of laws) {
+      const jurisdiction = law['country-region'];
+      if (!expansionsByJurisdiction.has(jurisdiction)) {
+        expansionsByJurisdiction.set(jurisdiction, this.expandTerms(feature, request.include_abbreviations, { team: request.team, jurisdiction }));
+      }
+      const expansions = expansionsByJurisdiction.get(jurisdiction)!;
+      const corrections = this.getCorrectionMessages(feature, law, request);
+      const cached = this.getCachedResult(feature, law, request, corrections, expansions, this.prompts.getVersionId('assessment-batch'));
+      if (cached) {
+        results.set(law, cached);
+        continue;
+      }
+      const groupKey = JSON.stringify(expansions);
+      if (!groups.has(groupKey)) {
+        groups.set(groupKey, { expansions, pending: [] });
+      }
+      groups.get(groupKey)!.pending.push(law);
+    }
+
+    const batches = [...groups.values()].flatMap(({ expansions, pending }) => planBatches(
+      pending,
+      law => estimateTokens(this.buildProvisionBlock('P00', law, this.getCorrectionMessages(feature, law, request))),
+      estimateTokens(Object.values(this.buildBatchCompliancePrompt(feature, [], expansions)).join('')),
+      this.batchLimits
+    ).map(batch => ({ batch, expansions })));
+
+    await Promise.all(batches.map(async ({ batch, expansions }) => {
+      const batchResults = batch.length === 1
+        ? new Map([[batch[0], await assessSingle(batch[0])]])
+        : await scheduler.schedule(feature.feature_name, () => this.assessBatch(feature, batch, request, expansions, context));
+      batchResults.forEach((result, law) => results.set(law, result));
+    }));
+
+    // Provisions the batch response left out are assessed one at a time
+    const missing = laws.filter(law => !results.has(law));
+    if (missing.length > 0) {
+      console.warn(`Batched assessment of ${feature.feature_name} omitted ${missing.length} provision(s); falling back to single-law calls`);
+      const singles = await Promise.all(missing.map(assessSingle));
+      missing.forEach((law, index) => results.set(law, singles[index]));
+    }
+
+    return laws.map(law => results.get(law)!);
+  }
+
+  /**
+   * Record the rules that matched the pair. A rule that sets a status replaces
+   * the model's verdict, which is kept in model_status when it differs.
+   */
+  private applyRules(feature: Feature, law: Law, result: ComplianceResult): ComplianceResult {
+    const hits = this.rules.evaluate(feature, law);
+    if (hits.length === 0) {
+      return result;
+    }
+    const status = RuleEngine.status(hits);
+    if (!status) {
+      return { ...result, rule_hits: hits };
+    }
+
+    const effects = hits
+      .filter(hit => hit.status)
+      .map(hit => this.rules.getRules().find(rule => rule.id === hit.rule_id)!);
+    const { abstained_status, parse_failed, ...rest } = result;
+    const modelStatus = abstained_status || (parse_failed ? undefined : result.compliance_status);
+    const ruleReasoning = effects
+      .map(rule => {
+        const why = (rule.then.reasoning || rule.description || '').trim().replace(/\.$/, '');
+        return `Rule ${rule.id} sets ${rule.then.status}${why ? `: ${why}` : ''}.`;
+      })
+      .join(' ');
+    return {
+      ...rest,
+      compliance_status: status,
+      reasoning: `${ruleReasoning} Model assessment: ${result.reasoning}`,
+      recommendations: [...new Set([...effects.flatMap(rule => rule.then.recommendations || []), ...result.recommendations])],
+      // The verdict no longer depends on the model
+      confidence: 1,
+      rule_hits: hits,
+      ...(modelStatus && modelStatus !== status ? { model_status: modelStatus } : {})
+    };
+  }
+
+  /**
+   * Instruction-like content in the feature and in the corrections sent with it
+   */
+  private detectInputInjection(feature: Feature, corrections: string[] = []): InjectionFinding[] {
+    return [
+      ...detectInjection(feature.feature_name, 'feature_name'),
+      ...detectInjection(feature.feature_description, 'feature_description'),
+      ...corrections.flatMap(message => detectInjection(message, 'correction'))
+    ];
+  }
+
+  /**
+   * Send a result to review when its inputs may have steered the model
+   */
+  private flagInjection(result: ComplianceResult, findings: InjectionFinding[]): ComplianceResult {
+    if (findings.length === 0) {
+      return result;
+    }
+    const sources = [...new Set(findings.map(finding => finding.source.replace('_', ' ')))].join(' and ');
+    return {
+      ...result,
+      compliance_status: 'requires_review',
+      reasoning: `Possible prompt injection in the ${sources} (${findings.map(finding => `"${finding.excerpt}"`).join(', ')}); manual review required. Model assessment: ${result.reasoning}`,
+      injection_findings: findings,
+      ...(result.compliance_status !== 'requires_review' ? { flagged_status: result.compliance_status } : {})
+    };
+  }
+
+  private getDefaultScreeningMode(): ScreeningMode {
+    const mode = process.env.SCREENING_MODE;
+    return mode === 'prefilter' || mode === 'offline' ? mode : 'llm';
+  }
+
+  private getAssessmentMode(request: ComplianceCheckRequest): AssessmentMode {
+    return request.assessment_mode || (process.env.ASSESSMENT_MODE === 'batched' ? 'batched' : 'single');
+  }
+
+  /**
+   * Assess a feature against several provisions in one model call
+   * @returns Results for the provisions the model answered; missing ones are left to the caller
+   */
+  private async assessBatch(
+    feature: Feature,
+    laws: Law[],
+    request: ComplianceCheckRequest,
+    expansions: GlossaryExpansion[],
+    context: RunContext
+  ): Promise<Map<Law, ComplianceResult>> {
+    const results = new Map<Law, ComplianceResult>();
+    const provisions = laws.map((law, index) => ({
+      id: `P${index + 1}`,
+      law,
+      corrections: this.getCorrectionMessages(feature, law, request)
+    }));
+
+    const prompt = this.buildBatchCompliancePrompt(feature, provisions, expansions);
+
+    try {
+      const output = await this.completeStructured<BatchAssessmentOutput>('assessment', {
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user }
+        ],
+        temperature: 0.3,
+        max_tokens: Math.min(this.batchLimits.maxOutputTokens, this.batchLimits.outputTokensPerItem * laws.length),
+        response_schema: BATCH_ASSESSMENT_RESPONSE
+      }, context, { feature_name: feature.feature_name });
+
+      if (!output.value) {
+        console.warn(`Unusable batch response for ${feature.feature_name}:`, output.errors);
+        return results;
+      }
+
+      for (const assessment of output.value.assessments) {
+        const provision = provisions.find(p => p.id === assessment.provision_id);
+        if (!provision || results.has(provision.law)) {
+          continue;
+        }
+        const result: ComplianceResult = {
+          ...this.resultIdentity(feature, provision.law),
+          compliance_status: assessment.compliance_status,
+          reasoning: assessment.reasoning,
+          recommendations: assessment.recommendations,
+          confidence: assessment.confidence,
+          raw_confidence: assessment.confidence,
+          ...this.verifiedEvidence(feature, provision.law, assessment.evidence),
+          prompt_version: prompt.version,
+          ...(expansions.length > 0 ? { expanded_terms: expansions } : {}),
+          ...(output.repairAttempts > 0 ? { repair_attempts: output.repairAttempts } : {})
+        };
+        results.set(provision.law, this.applyConfidence(result, request));
+        if (this.isCacheEnabled(request)) {
+          const cacheInput = this.getCacheInput(feature, provision.law, provision.corrections, expansions, prompt.version);
+          this.cache!.set(AssessmentCache.computeKey(cacheInput), cacheInput, result);
+        }
+      }
+    } catch (error) {
+      if (error instanceof BudgetExceededError && context.usage.getBudgetPolicy() === 'abort') {
+        throw error;
+      }
+      // Everything in the batch falls back to single-law calls
+      console.error(`Batched assessment failed for ${feature.feature_name}:`, error);
+    }
+
+    return results;
+  }
+
+  private getCorrectionMessages(feature: Feature, law: Law, request: ComplianceCheckRequest): string[] {
+    if (!request.include_corrections) {
+      return [];
+    }
+    return this.feedbackHandler.getCorrectionsForCompliance(feature.feature_name, law.law_title).map(c => c.message);
+  }
+
+  private isCacheEnabled(request: ComplianceCheckRequest): boolean {
+    return this.cache !== null && request.use_cache !== false;
+  }
+
+  private getCacheInput(
+    feature: Feature,
+    law: Law,
+    corrections: string[],
+    expansions: GlossaryExpansion[],
+    promptVersion: string,
+    model: string = this.assessmentProvider.model
+  ): AssessmentCacheKeyInput {
+    return {
+      feature_description: feature.feature_description,
+      law_description: law.law_description,
+      corrections,
+      prompt_version: promptVersion,
+      model,
+      glossary: expansions.map(e => `${e.term}: ${e.definition}`)
+    };
+  }
+
+  /**
+   * Reuse a previous assessment when none of its inputs changed
+   */
+  private getCachedResult(
+    feature: Feature,
+    law: Law,
+    request: ComplianceCheckRequest,
+    corrections: string[],
+    expansions: GlossaryExpansion[],
+    promptVersion: string,
+    model?: string
+  ): ComplianceResult | undefined {
+    if (!this.isCacheEnabled(request)) {
+      return undefined;
+    }
+    const cacheInput = this.getCacheInput(feature, law, corrections, expansions, promptVersion, model);
+    const cached = this.cache!.get(AssessmentCache.computeKey(cacheInput));
+    if (!cached) {
+      return undefined;
+    }
+    console.log(`Cache hit for ${feature.feature_name} vs ${law.law_title}`);
+    // Verdicts are cached before calibration, so they pick up newer reviewer corrections
+    return this.applyConfidence({
+      ...cached,
+      ...this.resultIdentity(feature, law),
+      cached: true
+    }, request);
+  }
+
+  public createRunContext(request: ComplianceCheckRequest): RunContext {
+    this.calibrator.refresh();
+    return {
+      usage: new UsageTracker(request.budget),
+      includeGlossary: request.include_abbreviations === true,
+      team: request.team,
+      screeningMode: request.screening_mode || this.getDefaultScreeningMode(),
+      redaction: new Redactor(this.redactionOptions)
+    };
+  }
+
+  /**
+   * Single entry point for model calls: enforces the run budget, redacts
+   * the prompt, and records token usage and estimated cost for every call.
+   * The answer comes back with its placeholders; callers parse it and then
+   * apply `restore` to the parsed strings.
+   */
+  private async callModel(
+    stage: LLMStage,
+    llmRequest: LLMRequest,
+    context: RunContext,
+    labels: { feature_name: string; law_title?: string },
+    provider: LLMProvider = stage === 'screening' ? this.screeningProvider : this.assessmentProvider
+  ): Promise<LLMResponse & { restore: (text: string) => string }> {
+    if (context.usage.isBudgetExceeded()) {
+      context.usage.recordSkipped(labels.feature_name, stage);
+      throw new BudgetExceededError(context.usage.getSummary());
+    }
+
+    const { request: redacted, restore } = context.redaction.redactRequest(llmRequest, stage);
+    const completion = await provider.complete(redacted);
+    context.usage.record({
+      stage,
+      feature_name: labels.feature_name,
+      law_title: labels.law_title,
+      model: completion.model,
+      configured_model: provider.model,
+      usage: completion.usage
+    });
+
+    if (completion.usage) {
+      console.log(`${stage} usage (${completion.provider} / ${completion.model}): ${completion.usage.prompt_tokens} prompt + ${completion.usage.completion_tokens} completion tokens`);
+    }
+    return { ...completion, restore };
+  }
+
+  /**
+   * Call the model for a schema-constrained answer. Answers that fail
+   * validation get up to `maxRepairAttempts` follow-up prompts listing the
+   * validation errors.
+   */
+  private async completeStructured<T>(
+    stage: LLMStage,
+    llmRequest: LLMRequest & { response_schema: LLMResponseSchema },
+    context: RunContext,
+    labels: { feature_name: string; law_title?: string },
+    provider?: LLMProvider
+  ): Promise<ParsedModelOutput<T> & { repairAttempts: number }> {
+    const messages: LLMMessage[] = [...llmRequest.messages];
+    let completion = await this.callModel(stage, { ...llmRequest, messages }, context, labels, provider);
+    let parsed = parseModelOutput<T>(completion.content, llmRequest.response_schema.schema);
+
+    let repairAttempts = 0;
+    while (!parsed.value && repairAttempts < this.maxRepairAttempts) {
+      repairAttempts++;
+      console.warn(`Invalid ${stage} response for ${labels.feature_name}${labels.law_title ? ` vs ${labels.law_title}` : ''} (repair ${repairAttempts}/${this.maxRepairAttempts}):`, parsed.errors);
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: buildRepairPrompt(parsed.errors) }
+      );
+      completion = await this.callModel(stage, { ...llmRequest, messages: [...messages] }, context, labels, provider);
+      parsed = parseModelOutput<T>(completion.content, llmRequest.response_schema.schema);
+    }
+
+    const value = parsed.value !== undefined ? restoreStrings(parsed.value, completion.restore) : undefined;
+    return { ...parsed, value, repairAttempts };
+  }
+
   public async checkFeatureCompliance(
     feature: Feature, 
     law: Law, 
-    request: ComplianceCheckRequest
+    request: ComplianceCheckRequest,
+    context: RunContext = this.createRunContext(request)
   ): Promise<ComplianceResult> {
     try {
       // Get relevant corrections if requested
-      let correctionsContext = '';
-      if (request.include_corrections) {
-        const corrections = this.feedbackHandler.getCorrectionsForCompliance(feature.feature_name, law.law_title);
-        if (corrections.length > 0) {
-          correctionsContext = `\n\nPrevious corrections for this feature-law combination:\n${corrections.map(c => `- ${c.message}`).join('\n')}`;
-        }
+      const correctionMessages = this.getCorrectionMessages(feature, law, request);
+      const correctionsContext = correctionMessages.length > 0
+        ? `\n\nPrevious corrections for this feature-law combination:\n${this.fenceCorrections(correctionMessages)}`
+        : '';
+
+      // Build the prompt from the active template version
+      // Team and jurisdiction-scoped definitions apply when assessing against that jurisdiction's law
+      const expansions = this.expandTerms(feature, request.include_abbreviations, { team: request.team, jurisdiction: law['country-region'] });
+      const prompt = this.buildCompliancePrompt(feature, law, correctionsContext, expansions);
+
+      if (this.isEnsembleEnabled(request)) {
+        return await this.assessWithEnsemble(feature, law, request, prompt, correctionMessages, expansions, context);
       }
 
-      // Build the prompt for GPT
-      const prompt = this.buildCompliancePrompt(feature, law, correctionsContext);
-      
-      // Call OpenRouter API directly
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
-          "HTTP-Referer": "http://localhost:8000", // Site URL for rankings
-          "X-Title": "Regulium-Z Compliance Checker", // Site title for rankings
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          "model": "google/gemini-2.0-flash-001",
-          "messages": [
-            {
-              "role": "system",
-              "content": "You are a regulatory compliance expert specializing in digital services, social media, and online platform regulations. Analyze the feature implementation against the law requirements and provide a comprehensive compliance assessment. Always respond in valid JSON format."
-            },
-            {
-              "role": "user",
-              "content": prompt
-            }
-          ],
-          "temperature": 0.3,
-          "max_tokens": 1000, // Increased significantly with available credits
-          "stream": false // Disable streaming to get complete response
-        })
-      });
+      const cached = this.getCachedResult(feature, law, request, correctionMessages, expansions, prompt.version);
+      if (cached) {
+        return cached;
+      }
+
+      // Call the configured assessment model
+      const output = await this.completeStructured<AssessmentOutput>('assessment', {
+        messages: [
+          {
+            role: 'system',
+            content: prompt.system
+          },
+          {
+            role: 'user',
+            content: prompt.user
+          }
+        ],
+        temperature: 0.3,
+        max_tokens: 1000,
+        response_schema: COMPLIANCE_ASSESSMENT_RESPONSE
+      }, context, { feature_name: feature.feature_name, law_title: law.law_title });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({})) as any;
-        throw new Error(`OpenRouter API error: ${response.status} ${response.statusText} - ${errorData.error?.message || 'Unknown error'}`);
+      if (!output.value) {
+        console.warn(`Giving up on ${feature.feature_name} vs ${law.law_title}:`, output.errors);
+        return { ...this.parseFailureResult(feature, law, output.errors, output.repairAttempts), prompt_version: prompt.version };
       }
 
-      const completion = await response.json() as any;
-      console.log(`Raw OpenRouter response for ${feature.feature_name} vs ${law.law_title}:`, JSON.stringify(completion, null, 2));
-      
-      const responseContent = completion.choices?.[0]?.message?.content || '';
-      console.log(`LLM response received for ${feature.feature_name} vs ${law.law_title}:`, responseContent);
-      console.log(`Response length: ${responseContent.length} characters`);
-      console.log(`Response type: ${typeof responseContent}`);
-      
-      const parsedResult = this.parseGPTResponse(responseContent, feature, law);
+      const parsedResult: ComplianceResult = {
+        ...this.resultIdentity(feature, law),
+        compliance_status: output.value.compliance_status,
+        reasoning: output.value.reasoning,
+        recommendations: output.value.recommendations,
+        confidence: output.value.confidence,
+        raw_confidence: output.value.confidence,
+        ...this.verifiedEvidence(feature, law, output.value.evidence),
+        prompt_version: prompt.version,
+        ...(expansions.length > 0 ? { expanded_terms: expansions } : {}),
+        ...(output.repairAttempts > 0 ? { repair_attempts: output.repairAttempts } : {})
+      };
 
-      return parsedResult;
+      // Only genuine model verdicts are cached, never fallbacks
+      if (this.isCacheEnabled(request)) {
+        const cacheInput = this.getCacheInput(feature, law, correctionMessages, expansions, prompt.version);
+        this.cache!.set(AssessmentCache.computeKey(cacheInput), cacheInput, parsedResult);
+      }
+      return this.applyConfidence(parsedResult, request);
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        if (context.usage.getBudgetPolicy() === 'abort') {
+          throw error;
+        }
+        console.warn(`Skipping ${feature.feature_name} vs ${law.law_title}: run budget exceeded`);
+        return {
+          ...this.resultIdentity(feature, law),
+          compliance_status: 'requires_review',
+          reasoning: 'Assessment skipped because the run budget was exceeded. Manual review required.',
+          recommendations: ['Re-run the compliance check with a higher budget', 'Review the feature implementation manually'],
+          confidence: 0
+        };
+      }
+
       console.error(`Error checking compliance for feature ${feature.feature_name} against law ${law.law_title}:`, error);
       console.error('Error details:', {
         message: error instanceof Error ? error.message : 'Unknown error',
@@ -197,214 +691,597 @@ export class ComplianceChecker {
       
       // Return a fallback result
       return {
-        feature_name: feature.feature_name,
-        law_title: law.law_title,
-        law_description: law.law_description,
+        ...this.resultIdentity(feature, law),
         compliance_status: 'requires_review',
         reasoning: 'Error occurred during compliance check. Manual review required.',
-        recommendations: ['Review the feature implementation manually', 'Check system logs for errors']
+        recommendations: ['Review the feature implementation manually', 'Check system logs for errors'],
+        confidence: 0
       };
     }
   }
 
-  private buildCompliancePrompt(feature: Feature, law: Law, correctionsContext: string): string {
-    return `Feature: ${feature.feature_name}
-Description: ${feature.feature_description}
+  private isEnsembleEnabled(request: ComplianceCheckRequest): boolean {
+    return request.ensemble ?? process.env.ASSESSMENT_ENSEMBLE === 'true';
+  }
 
-Law: ${law.law_title}
-Description: ${law.law_description}
+  /**
+   * Models (or samples of one model) that vote in ensemble mode, created on first use
+   */
+  private getEnsembleMembers(): EnsembleMember[] {
+    if (!this.ensembleMembers) {
+      const { models, samples, sampleTemperature } = this.ensembleOptions;
+      const providers = this.ensembleProviders
+        ? this.ensembleProviders.map(provider => ({ label: `${provider.name}/${provider.model}`, provider }))
+        : models.length > 0
+          ? models.map(spec => ({ label: spec, provider: createLLMProvider('assessment', spec) }))
+          : [{ label: `${this.assessmentProvider.name}/${this.assessmentProvider.model}`, provider: this.assessmentProvider }];
 
-${correctionsContext}
+      this.ensembleMembers = providers.flatMap(({ label, provider }) =>
+        Array.from({ length: samples }, (_, sample) => ({
+          label: samples > 1 ? `${label} #${sample + 1}` : label,
+          provider,
+          temperature: sample === 0 ? 0.3 : sampleTemperature
+        }))
+      );
+    }
+    return this.ensembleMembers;
+  }
 
-Analyze the compliance of this feature against the law. Consider:
-1. Does the feature implementation align with the law's requirements?
-2. Are there any potential violations or compliance gaps?
-3. What specific aspects need attention?
+  /**
+   * Assess a pair with every ensemble member and vote on the status. When the
+   * members disagree the result is contested and goes to review, keeping each
+   * member's reasoning. Members are called one after another so the scheduler
+   * still bounds the number of calls in flight.
+   */
+  private async assessWithEnsemble(
+    feature: Feature,
+    law: Law,
+    request: ComplianceCheckRequest,
+    prompt: RenderedPrompt,
+    correctionMessages: string[],
+    expansions: GlossaryExpansion[],
+    context: RunContext
+  ): Promise<ComplianceResult> {
+    const voting: EnsembleVoting = isEnsembleVoting(request.ensemble_voting) ? request.ensemble_voting : this.ensembleOptions.voting;
+    const members = this.getEnsembleMembers();
+    const ensembleModel = `ensemble(${voting}):${members.map(member => member.label).join(',')}`;
 
-Respond in this exact JSON format:
-{
-  "compliance_status": "compliant|non-compliant|requires_review",
-  "reasoning": "Detailed explanation of compliance assessment",
-  "recommendations": ["Specific action item 1", "Specific action item 2", "Specific action item 3"]
-}
+    const cached = this.getCachedResult(feature, law, request, correctionMessages, expansions, prompt.version, ensembleModel);
+    if (cached) {
+      return cached;
+    }
 
-Ensure the response is valid JSON with no additional text before or after.`;
-  }
+    const votes: EnsembleVote[] = [];
+    for (const member of members) {
+      try {
+        const output = await this.completeStructured<AssessmentOutput>('assessment', {
+          messages: [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user }
+          ],
+          temperature: member.temperature,
+          max_tokens: 1000,
+          response_schema: COMPLIANCE_ASSESSMENT_RESPONSE
+        }, context, { feature_name: feature.feature_name, law_title: law.law_title }, member.provider);
 
-  private parseGPTResponse(response: string, feature: Feature, law: Law): ComplianceResult {
-    try {
-      // Log the raw response for debugging
-      console.log(`Raw response for ${feature.feature_name} vs ${law.law_title}:`, response.substring(0, 200) + '...');
-      
-      // Clean the response - remove any markdown formatting
-      let cleanResponse = response.trim();
-      if (cleanResponse.startsWith('```json')) {
-        cleanResponse = cleanResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanResponse.startsWith('```')) {
-        cleanResponse = cleanResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Try to extract JSON from the response
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          const parsed = JSON.parse(jsonMatch[0]);
-          
-          // Validate required fields
-          if (parsed.compliance_status && parsed.reasoning && parsed.recommendations) {
-            // Validate compliance_status values
-            const validStatuses = ['compliant', 'non-compliant', 'requires_review'];
-            if (!validStatuses.includes(parsed.compliance_status)) {
-              console.warn(`Invalid compliance_status: ${parsed.compliance_status}, defaulting to requires_review`);
-              parsed.compliance_status = 'requires_review';
-            }
-            
-            return {
-              feature_name: feature.feature_name,
-              law_title: law.law_title,
-              law_description: law.law_description,
-              compliance_status: parsed.compliance_status,
-              reasoning: parsed.reasoning,
-              recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : ['Review implementation manually']
-            };
-          } else {
-            console.warn('JSON response missing required fields:', parsed);
-          }
-        } catch (jsonError) {
-          console.warn('Failed to parse extracted JSON:', jsonError);
+        votes.push(output.value
+          ? { member: member.label, ...output.value }
+          : { member: member.label, compliance_status: 'requires_review', reasoning: `Response parsing failed (${output.errors.join('; ')})`, recommendations: [], confidence: 0, failed: true });
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          throw error;
         }
-      } else {
-        console.warn('No JSON found in response');
+        console.error(`Ensemble member ${member.label} failed for ${feature.feature_name} vs ${law.law_title}:`, error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        votes.push({ member: member.label, compliance_status: 'requires_review', reasoning: `Model call failed (${message})`, recommendations: [], confidence: 0, failed: true });
       }
-    } catch (error) {
-      console.warn('Failed to parse GPT response:', error);
     }
 
-    // Fallback parsing
+    const { status, contested } = tallyVotes(votes, voting);
+    const agreeing = votes.filter(vote => !vote.failed && vote.compliance_status === status);
+    // Agreeing members' mean confidence, scaled by the share of members that agreed
+    const confidence = agreeing.length === 0
+      ? 0
+      : Math.round(agreeing.reduce((sum, vote) => sum + vote.confidence, 0) / votes.length * 100) / 100;
+    const result: ComplianceResult = {
+      ...this.resultIdentity(feature, law),
+      compliance_status: contested ? 'requires_review' : status,
+      reasoning: contested
+        ? `Ensemble members disagreed; human review required.\n\n${votes.map(vote => `${vote.member} (${vote.compliance_status}): ${vote.reasoning}`).join('\n\n')}`
+        : (agreeing[0] || votes[0]).reasoning,
+      recommendations: [...new Set((contested ? votes : agreeing).flatMap(vote => vote.recommendations))],
+      confidence,
+      raw_confidence: confidence,
+      ...this.verifiedEvidence(feature, law, (contested ? votes : agreeing).flatMap(vote => vote.evidence || [])),
+      prompt_version: prompt.version,
+      ...(expansions.length > 0 ? { expanded_terms: expansions } : {}),
+      ensemble: { voting, voted_status: status, votes },
+      ...(contested ? { contested: true } : {})
+    };
+
+    if (votes.every(vote => vote.failed)) {
+      return { ...result, raw_confidence: undefined, parse_failed: true };
+    }
+    // Verdicts with a failed member are not cached, so the next run retries it
+    if (this.isCacheEnabled(request) && !votes.some(vote => vote.failed)) {
+      const cacheInput = this.getCacheInput(feature, law, correctionMessages, expansions, prompt.version, ensembleModel);
+      this.cache!.set(AssessmentCache.computeKey(cacheInput), cacheInput, result);
+    }
+    return this.applyConfidence(result, request);
+  }
+
+  /**
+   * Replace the model's stated confidence with the calibrated one and send
+   * verdicts below the abstention threshold to review
+   */
+  private applyConfidence(result: ComplianceResult, request: ComplianceCheckRequest): ComplianceResult {
+    if (result.raw_confidence === undefined) {
+      return result;
+    }
+    const confidence = this.calibrator.calibrate(result.raw_confidence);
+    const threshold = request.abstention_threshold ?? this.abstentionThreshold;
+    if (confidence >= threshold || result.compliance_status === 'requires_review') {
+      return { ...result, confidence };
+    }
+    console.log(`Abstaining on ${result.feature_name} vs ${result.law_title}: confidence ${confidence} is below ${threshold}`);
     return {
-      feature_name: feature.feature_name,
+      ...result,
+      confidence,
+      compliance_status: 'requires_review',
+      abstained_status: result.compliance_status
+    };
+  }
+
+  private buildProvisionBlock(id: string, law: Law, corrections: string[]): string {
+    const correctionLines = corrections.length > 0
+      ? `\nPrevious corrections for this feature-law combination:\n${this.fenceCorrections(corrections)}`
+      : '';
+    return `[${id}] Law: ${law.law_title}
+Description: ${law.law_description}${correctionLines}`;
+  }
+
+  private fenceCorrections(corrections: string[]): string {
+    return `<corrections>\n${corrections.map(message => `- ${escapeFences(message)}`).join('\n')}\n</corrections>`;
+  }
+
+  private buildBatchCompliancePrompt(
+    feature: Feature,
+    provisions: Array<{ id: string; law: Law; corrections: string[] }>,
+    expansions: GlossaryExpansion[]
+  ): RenderedPrompt {
+    return this.prompts.render('assessment-batch', {
+      feature_name: escapeFences(feature.feature_name),
+      feature_description: escapeFences(feature.feature_description),
+      glossary: Glossary.formatForPrompt(expansions),
+      provisions: provisions.map(p => this.buildProvisionBlock(p.id, p.law, p.corrections)).join('\n\n')
+    });
+  }
+
+  private buildCompliancePrompt(
+    feature: Feature,
+    law: Law,
+    correctionsContext: string,
+    expansions: GlossaryExpansion[]
+  ): RenderedPrompt {
+    return this.prompts.render('assessment', {
+      feature_name: escapeFences(feature.feature_name),
+      feature_description: escapeFences(feature.feature_description),
+      glossary: Glossary.formatForPrompt(expansions),
       law_title: law.law_title,
       law_description: law.law_description,
+      corrections: correctionsContext
+    });
+  }
+
+  /**
+   * Quoted evidence that checks out against the feature and provision text
+   */
+  private verifiedEvidence(feature: Feature, law: Law, claims: EvidenceClaim[] | undefined): Pick<ComplianceResult, 'evidence' | 'rejected_evidence'> {
+    if (!claims || claims.length === 0) {
+      return {};
+    }
+    const { evidence, rejected } = verifyEvidence(claims, feature.feature_description, law.law_description);
+    if (rejected > 0) {
+      console.warn(`Discarded ${rejected} evidence quote(s) not found in ${feature.feature_name}`);
+    }
+    return { evidence, ...(rejected > 0 ? { rejected_evidence: rejected } : {}) };
+  }
+
+  /**
+   * Fields that identify the feature and provision a result is about
+   */
+  private resultIdentity(feature: Feature, law: Law): Pick<ComplianceResult, 'feature_name' | 'feature_description' | 'law_id' | 'law_title' | 'provision_index' | 'law_description'> {
+    return {
+      feature_name: feature.feature_name,
+      feature_description: feature.feature_description,
+      law_id: law.law_id,
+      law_title: law.law_title,
+      provision_index: law.index,
+      law_description: law.law_description
+    };
+  }
+
+  private parseFailureResult(feature: Feature, law: Law, errors: string[], repairAttempts: number): ComplianceResult {
+    return {
+      ...this.resultIdentity(feature, law),
       compliance_status: 'requires_review',
-      reasoning: 'Response parsing failed. Manual review required.',
-      recommendations: ['Review the feature implementation manually', 'Check compliance requirements']
+      reasoning: `Response parsing failed (${errors.join('; ')}). Manual review required.`,
+      recommendations: ['Review the feature implementation manually', 'Check compliance requirements'],
+      confidence: 0,
+      parse_failed: true,
+      repair_attempts: repairAttempts
     };
   }
 
-  private calculateRiskScore(compliantCount: number, nonCompliantCount: number, reviewRequiredCount: number, totalLaws: number): number {
-    const totalChecks = compliantCount + nonCompliantCount + reviewRequiredCount;
-    if (totalChecks === 0) {
-      return 0; // No checks performed
+  /**
+   * Results, screening and summary of a run. Both the batch check and the
+   * single-feature check report through here so they count and score alike.
+   */
+  public buildResponse(runs: FeatureRun[], laws: Law[], context: RunContext): ComplianceCheckResponse {
+    const results = runs.flatMap(run => run.results);
+    const riskItems: RiskItem[] = [];
+    for (const run of runs) {
+      const byIndex = new Map(run.relevantLaws.map(law => [law.index, law]));
+      for (const result of run.results) {
+        const law = byIndex.get(result.provision_index);
+        if (law) {
+          riskItems.push({ feature_name: run.feature.feature_name, law, outcome: result.parse_failed ? 'parse_failed' : result.compliance_status });
+        }
+      }
+      // Provisions that could not be screened are scored too, so a failed screening never reads as low risk
+      for (const law of this.getUnscreenedLaws(run.screening, laws)) {
+        riskItems.push({ feature_name: run.feature.feature_name, law, outcome: 'unscreened' });
+      }
     }
-    const riskScore = (nonCompliantCount + reviewRequiredCount) / totalChecks;
-    return Math.round(riskScore * 100); // Scale to 0-100
+    const risk = this.riskScorer.breakdown(riskItems);
+    // Unparseable answers are not counted as review verdicts
+    const parseFailureCount = results.filter(r => r.parse_failed).length;
+
+    return {
+      results,
+      screening: runs.map(run => run.screening),
+      summary: {
+        total_features: runs.length,
+        total_laws: laws.length,
+        relevant_laws: runs.reduce((total, run) => total + run.relevantLaws.length, 0),
+        compliant_count: results.filter(r => r.compliance_status === 'compliant').length,
+        non_compliant_count: results.filter(r => r.compliance_status === 'non-compliant').length,
+        review_required_count: results.filter(r => r.compliance_status === 'requires_review').length - parseFailureCount,
+        parse_failure_count: parseFailureCount,
+        screening_outcome: this.combineScreeningOutcomes(runs.map(run => run.screening)),
+        unscreened_laws: riskItems.filter(item => item.outcome === 'unscreened').length,
+        contested_count: results.filter(r => r.contested).length,
+        abstained_count: results.filter(r => r.abstained_status).length,
+        flagged_count: results.filter(r => r.injection_findings).length,
+        overall_risk_score: risk.overall_score,
+        risk,
+        usage: context.usage.getSummary(),
+        redaction: context.redaction.getReport()
+      },
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  public getCache(): AssessmentCache | null {
+    return this.cache;
+  }
+
+  public getPromptRegistry(): PromptRegistry {
+    return this.prompts;
+  }
+
+  public getCalibrator(): ConfidenceCalibrator {
+    return this.calibrator;
+  }
+
+  public getRiskScorer(): RiskScorer {
+    return this.riskScorer;
+  }
+
+  public getRuleEngine(): RuleEngine {
+    return this.rules;
+  }
+
+  public getGlossary(): Glossary {
+    return this.glossary;
   }
 
   public async refreshData(): Promise<void> {
     await this.dataHandler.refreshData();
-    this.loadAbbreviations();
+    this.glossary.load();
   }
 
   /**
    * Screen laws for relevance to a specific feature
    * @param feature The feature to check
-   * @param allLaws All available laws
-   * @returns Array of relevant law IDs
+   * @param allLaws All available provisions
+   * @returns Titles of laws with at least one relevant provision
+   */
+  public async screenLawsForRelevance(
+    feature: Feature,
+    allLaws: Law[],
+    context: RunContext = this.createRunContext({})
+  ): Promise<string[]> {
+    const screening = await this.screenLaws(feature, allLaws, context);
+    return [...new Set(screening.provisions.filter(s => s.relevant).map(s => s.law_title))];
+  }
+
+  /**
+   * Screen provisions for relevance to a feature, keeping a score and a
+   * one-line rationale for every provision considered, relevant or not
    */
-  public async screenLawsForRelevance(feature: Feature, allLaws: Law[]): Promise<string[]> {
+  public async screenLaws(
+    feature: Feature,
+    allLaws: Law[],
+    context: RunContext = this.createRunContext({})
+  ): Promise<FeatureScreening> {
+    // Provisions a rule decides are not sent to the model, and the decision stands if screening fails
+    const ruled = this.screenByRules(feature, allLaws);
+    // A model that may have been steered by the feature text is not trusted to exclude provisions
+    const findings = this.detectInputInjection(feature);
+    const distrust = (s: ProvisionScreening): ProvisionScreening => findings.length > 0 && s.source === 'model' && !s.relevant && !s.unscreened
+      ? { ...s, relevant: true, rationale: `Kept for review: the feature may contain a prompt injection (screening said: ${s.rationale})` }
+      : s;
+    const toScreening = (screenings: ProvisionScreening[], promptVersion?: string, error?: string): FeatureScreening => {
+      // Report provisions in their original order
+      const ordered = allLaws
+        .map(law => ruled.find(s => s.provision_index === law.index) || screenings.find(s => s.provision_index === law.index))
+        .filter((s): s is ProvisionScreening => s !== undefined)
+        .map(distrust);
+      const unscreenedCount = ordered.filter(s => s.unscreened).length;
+      return {
+        feature_name: feature.feature_name,
+        outcome: unscreenedCount === 0 ? 'succeeded' : unscreenedCount === ordered.length ? 'failed' : 'partial',
+        relevant_provisions: ordered.filter(s => s.relevant).map(s => s.provision_index),
+        provisions: ordered,
+        ...(promptVersion ? { prompt_version: promptVersion } : {}),
+        ...(error ? { error } : {}),
+        ...(findings.length > 0 ? { injection_findings: findings } : {})
+      };
+    };
+    const unscreened = (rationale: string, laws: Law[] = allLaws): ProvisionScreening[] => laws.map(law => ({
+      ...this.screeningIdentity(law),
+      relevant: false,
+      relevance_score: 0,
+      rationale,
+      source: 'model',
+      unscreened: true
+    }));
+
     try {
       console.log(`Screening ${allLaws.length} laws for relevance to feature: ${feature.feature_name}`);
       
-      const prompt = `Feature: ${feature.feature_name}
-Description: ${feature.feature_description}
-
-I have ${allLaws.length} laws to check against. Please analyze which laws are RELEVANT to this feature.
-
-A law is RELEVANT if:
-- The feature's functionality directly interacts with the law's requirements
-- The feature could potentially violate or need to comply with the law
-- The feature's data handling, user interactions, or business logic relates to the law
-- The feature operates in the same domain or industry that the law regulates
-
-A law is NOT RELEVANT if:
-- The feature has no connection to the law's domain
-- The feature's functionality doesn't touch on the law's requirements
-- The law applies to completely different types of services or features
-- The law regulates industries or activities unrelated to the feature's purpose
-- The feature is outside the scope of what the law regulates
-
-IMPORTANT: Be very selective. Only include laws that have a direct, clear connection to the feature. It's better to miss a law than to include irrelevant ones.
-
-Respond with ONLY a JSON array of relevant law titles (exact matches from the list below):
-
-${allLaws.map(law => `- ${law.law_title}`).join('\n')}
-
-Example response format:
-["Digital Services Act (DSA)", "GDPR"]
-
-Only include laws that are actually relevant. If none are relevant, return an empty array [].`;
-
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
-          "HTTP-Referer": "http://localhost:8000",
-          "X-Title": "Regulium-Z Compliance Checker",
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          "model": "google/gemini-2.0-flash-001",
-          "messages": [
-            {
-              "role": "system",
-              "content": "You are a regulatory compliance expert. Your job is to identify which laws are relevant to a specific feature. Be very selective and conservative - only include laws that have a direct, clear, and obvious connection to the feature's functionality. When in doubt, exclude the law. It's better to be too restrictive than too permissive."
-            },
-            {
-              "role": "user",
-              "content": prompt
-            }
-          ],
-          "temperature": 0.1,
-          "max_tokens": 500,
-          "stream": false
-        })
-      });
+      const expansions = this.expandTerms(feature, context.includeGlossary, { team: context.team });
+      if (expansions.length > 0) {
+        console.log(`Expanded ${expansions.length} glossary terms for ${feature.feature_name}:`, expansions.map(e => e.term));
+      }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({})) as any;
-        throw new Error(`OpenRouter API error: ${response.status} ${response.statusText} - ${errorData.error?.message || 'Unknown error'}`);
+      const decided = new Set(ruled.map(s => s.provision_index));
+      let candidates = allLaws.filter(law => !decided.has(law.index));
+      if (candidates.length === 0) {
+        return toScreening([]);
+      }
+      const excluded: ProvisionScreening[] = [];
+      if (context.screeningMode !== 'llm') {
+        const lexical = await this.screenLexically(feature, candidates, expansions, context.screeningMode);
+        console.log(`Lexical ${context.screeningMode} kept ${lexical.filter(s => s.relevant).length} of ${lexical.length} provisions for ${feature.feature_name}`);
+        if (context.screeningMode === 'offline') {
+          return toScreening(lexical);
+        }
+        const shortlisted = new Set(lexical.filter(s => s.relevant).map(s => s.provision_index));
+        candidates = candidates.filter(law => shortlisted.has(law.index));
+        excluded.push(...lexical.filter(s => !s.relevant));
+        if (candidates.length === 0) {
+          return toScreening(excluded);
+        }
       }
 
-      const completion = await response.json() as any;
-      const responseContent = completion.choices?.[0]?.message?.content || '';
-      console.log(`Relevance screening response for ${feature.feature_name}:`, responseContent.substring(0, 200) + '...');
+      const catalog = candidates.map((law, index) => ({ id: `P${index + 1}`, law }));
+      // Law-level lists for screening@1 and screening@2
+      const lawCatalog = this.uniqueLaws(candidates).map((law, index) => ({ id: `L${index + 1}`, law }));
+      const prompt = this.prompts.render('screening', {
+        feature_name: escapeFences(feature.feature_name),
+        feature_description: escapeFences(feature.feature_description),
+        glossary: Glossary.formatForPrompt(expansions),
+        law_count: lawCatalog.length,
+        law_list: lawCatalog.map(entry => `- ${entry.law.law_title}`).join('\n'),
+        law_catalog: lawCatalog.map(entry => `[${entry.id}] ${entry.law.law_title} (${entry.law['country-region']})`).join('\n'),
+        provision_count: catalog.length,
+        provision_catalog: catalog.map(entry => `[${entry.id}] ${entry.law.law_title} (${entry.law['country-region']}): ${entry.law.law_description}`).join('\n')
+      });
 
-      // Parse the response to extract relevant law titles
-      const relevantLawTitles = this.parseRelevanceResponse(responseContent);
-      console.log(`Identified ${relevantLawTitles.length} relevant laws for ${feature.feature_name}:`, relevantLawTitles);
+      // Call the configured screening model
+      const completion = await this.callModel('screening', {
+        messages: [
+          {
+            role: 'system',
+            content: prompt.system
+          },
+          {
+            role: 'user',
+            content: prompt.user
+          }
+        ],
+        temperature: 0.1,
+        max_tokens: Math.max(500, 80 * catalog.length),
+        response_schema: SCREENING_RESPONSE
+      }, context, { feature_name: feature.feature_name });
 
-      // Find the actual law objects that match the titles
-      const relevantLaws = allLaws.filter(law => 
-        relevantLawTitles.some(title => 
-          title.toLowerCase().trim() === law.law_title.toLowerCase().trim()
-        )
-      );
+      const responseContent = completion.content;
+      console.log(`Relevance screening response for ${feature.feature_name}:`, responseContent.substring(0, 200) + '...');
 
-      console.log(`Matched ${relevantLaws.length} laws for compliance checking for ${feature.feature_name}:`, relevantLaws.map(l => l.law_title));
-      return relevantLaws.map(law => law.law_title);
+      const screened = this.parseScreeningResponse(responseContent, catalog, lawCatalog);
+      if (!screened) {
+        console.warn(`Unusable screening response for ${feature.feature_name} - manual review recommended`);
+        const error = 'Screening response could not be parsed';
+        return toScreening([...unscreened(`${error}; this provision was not screened`, candidates), ...excluded], prompt.version, error);
+      }
+      const restored = screened.map(s => ({ ...s, rationale: completion.restore(s.rationale) }));
+      const result = toScreening([...restored, ...excluded], prompt.version);
+      console.log(`Identified ${result.relevant_provisions.length} relevant provisions for ${feature.feature_name} (screening ${result.outcome}):`, result.relevant_provisions);
+      return result;
 
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        if (context.usage.getBudgetPolicy() === 'abort') {
+          throw error;
+        }
+        console.warn(`Skipping screening for ${feature.feature_name}: run budget exceeded`);
+        return toScreening(unscreened('Screening skipped because the run budget was exceeded'), undefined, error.message);
+      }
+
+      // No laws are assessed, but the failure is reported instead of reading as "nothing relevant"
       console.error('Error screening laws for relevance:', error);
-      // Fallback: return empty array if screening fails to be conservative
-      console.warn('Falling back to no laws due to screening error - manual review recommended');
-      return [];
+      const message = error instanceof Error ? error.message : 'Unknown screening error';
+      return toScreening(unscreened('Screening failed; this provision was not screened'), undefined, message);
+    }
+  }
+
+  /**
+   * Screening decisions made by rules, for the provisions a rule forces relevant or irrelevant
+   */
+  private screenByRules(feature: Feature, laws: Law[]): ProvisionScreening[] {
+    const decisions: ProvisionScreening[] = [];
+    for (const law of laws) {
+      const hits = this.rules.evaluate(feature, law);
+      const relevant = RuleEngine.relevance(hits);
+      if (relevant === undefined) {
+        continue;
+      }
+      const deciding = hits.filter(hit => hit.relevant === relevant);
+      decisions.push({
+        ...this.screeningIdentity(law),
+        relevant,
+        relevance_score: relevant ? 1 : 0,
+        rationale: deciding
+          .map(hit => `Rule ${hit.rule_id}${hit.description ? `: ${hit.description}` : ''}${hit.matched.length > 0 ? ` (matched ${hit.matched.join(', ')})` : ''}`)
+          .join('; '),
+        source: 'rule',
+        rule_hits: hits
+      });
+    }
+    return decisions;
+  }
+
+  /**
+   * Provisions that were never screened for the feature
+   */
+  public getUnscreenedLaws(screening: FeatureScreening, laws: Law[]): Law[] {
+    const unscreened = new Set(screening.provisions.filter(s => s.unscreened).map(s => s.provision_index));
+    return laws.filter(law => unscreened.has(law.index));
+  }
+
+  public combineScreeningOutcomes(screenings: FeatureScreening[]): ScreeningOutcome {
+    if (screenings.every(s => s.outcome === 'succeeded')) {
+      return 'succeeded';
     }
+    return screenings.every(s => s.outcome === 'failed') ? 'failed' : 'partial';
+  }
+
+  private screeningIdentity(law: Law): Pick<ProvisionScreening, 'law_id' | 'law_title' | 'country-region' | 'provision_index'> {
+    return {
+      law_id: law.law_id,
+      law_title: law.law_title,
+      'country-region': law['country-region'],
+      provision_index: law.index
+    };
+  }
+
+  /**
+   * First provision of each law, in order
+   */
+  private uniqueLaws(laws: Law[]): Law[] {
+    const seen = new Map<string, Law>();
+    for (const law of laws) {
+      if (!seen.has(law.law_id)) {
+        seen.set(law.law_id, law);
+      }
+    }
+    return [...seen.values()];
+  }
+
+  /**
+   * Lexical screening decisions per provision. Scores are relative to the best match.
+   */
+  private async screenLexically(feature: Feature, laws: Law[], expansions: GlossaryExpansion[], mode: ScreeningMode): Promise<ProvisionScreening[]> {
+    if (!this.dataHandler.isReady()) {
+      await this.dataHandler.waitForReady();
+    }
+    // Definitions of the glossary terms a feature uses add words the laws are written in
+    const query = [feature.feature_name, feature.feature_description, ...expansions.map(e => e.definition)].join('\n');
+    const index = this.dataHandler.getLawIndex();
+    const matches = index.search(query, laws);
+    const shortlisted = new Set(index.shortlist(query, laws, this.prefilterOptions, mode).map(match => match.law.index));
+    const topScore = matches.length > 0 ? matches[0].score : 0;
+
+    return laws.map(law => {
+      const match = matches.find(m => m.law.index === law.index);
+      const terms = match ? match.terms.slice(0, 6).join(', ') : '';
+      const relevant = shortlisted.has(law.index);
+      return {
+        ...this.screeningIdentity(law),
+        relevant,
+        relevance_score: match ? Math.round(match.score / topScore * 100) / 100 : 0,
+        rationale: relevant
+          ? `Shares terms with the feature (${terms})`
+          : match
+            ? `Too little term overlap with the feature (${terms})`
+            : 'No terms in common with the feature',
+        source: 'lexical'
+      };
+    });
+  }
+
+  /**
+   * Per-provision decisions from the screening response. Law-level answers from
+   * screening@2 and plain arrays of relevant titles from screening@1 are accepted
+   * too; they apply to every provision of the law.
+   * @returns undefined when the response is unusable
+   */
+  private parseScreeningResponse(
+    response: string,
+    catalog: Array<{ id: string; law: Law }>,
+    lawCatalog: Array<{ id: string; law: Law }>
+  ): ProvisionScreening[] | undefined {
+    const toScreening = (law: Law, answer: ScreeningAnswer | undefined): ProvisionScreening => answer
+      ? { ...this.screeningIdentity(law), relevant: answer.relevant, relevance_score: answer.relevance_score, rationale: answer.rationale, source: 'model' }
+      : { ...this.screeningIdentity(law), relevant: false, relevance_score: 0, rationale: 'Not mentioned in the screening response', source: 'model', unscreened: true };
+
+    const byProvision = parseModelOutput<ScreeningOutput<'provision_id'>>(response, SCREENING_RESPONSE.schema);
+    if (byProvision.value) {
+      const answers = byProvision.value.screenings;
+      return catalog.map(({ id, law }) => toScreening(law, answers.find(a => a.provision_id === id)));
+    }
+
+    const byLaw = parseModelOutput<ScreeningOutput<'law_id'>>(response, LAW_SCREENING_SCHEMA);
+    if (byLaw.value) {
+      const answers = byLaw.value.screenings;
+      return catalog.map(({ law }) => {
+        const entry = lawCatalog.find(e => e.law.law_id === law.law_id);
+        return toScreening(law, answers.find(a => a.law_id === entry?.id));
+      });
+    }
+
+    const listed = this.parseRelevanceResponse(response)?.map(title => title.toLowerCase().trim());
+    const known = lawCatalog.map(entry => entry.law.law_title.toLowerCase().trim());
+    if (!listed || (listed.length > 0 && !listed.some(title => known.includes(title)))) {
+      return undefined;
+    }
+    return catalog.map(({ law }) => {
+      const relevant = listed.includes(law.law_title.toLowerCase().trim());
+      return toScreening(law, {
+        relevant,
+        relevance_score: relevant ? 1 : 0,
+        rationale: relevant ? 'Listed as relevant by the screening model' : 'Not listed as relevant by the screening model'
+      });
+    });
   }
 
   /**
    * Parse the relevance screening response to extract law titles
+   * @returns undefined when no list of titles can be found
    */
-  private parseRelevanceResponse(response: string): string[] {
+  private parseRelevanceResponse(response: string): string[] | undefined {
     try {
       // Clean the response - remove any markdown formatting
       let cleanResponse = response.trim();
@@ -418,8 +1295,8 @@ Only include laws that are actually relevant. If none are relevant, return an em
       const jsonMatch = cleanResponse.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
         const parsed = JSON.parse(jsonMatch[0]);
-        if (Array.isArray(parsed)) {
-          return parsed.filter(item => typeof item === 'string');
+        if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) {
+          return parsed;
         }
       }
 
@@ -429,11 +1306,11 @@ Only include laws that are actually relevant. If none are relevant, return an em
         return lawMatches.map(match => match.replace(/"/g, ''));
       }
 
-      console.warn('Could not parse relevance response, returning empty array');
-      return [];
+      console.warn('Could not parse relevance response');
+      return undefined;
     } catch (error) {
       console.warn('Failed to parse relevance response:', error);
-      return [];
+      return undefined;
     }
   }
 }
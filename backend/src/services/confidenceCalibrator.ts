@@ -0,0 +1,105 @@
+import { FeedbackHandler } from './feedbackHandler';
+import { getNumberEnv } from '../utils/envUtils';
+import { CalibrationBin, CalibrationSummary, Correction } from '../types';
+
+export interface CalibrationOptions {
+  // Equal-width bins over the raw 0-1 confidence
+  binCount: number;
+  // How many reviewed samples a bin needs before observed accuracy outweighs the model's own score
+  priorWeight: number;
+}
+
+/**
+ * Calibration settings from CONFIDENCE_CALIBRATION_BINS and CONFIDENCE_CALIBRATION_PRIOR_WEIGHT
+ */
+export function getCalibrationOptions(overrides: Partial<CalibrationOptions> = {}): CalibrationOptions {
+  return {
+    binCount: Math.max(1, Math.floor(getNumberEnv('CONFIDENCE_CALIBRATION_BINS', 10))),
+    priorWeight: Math.max(0, getNumberEnv('CONFIDENCE_CALIBRATION_PRIOR_WEIGHT', 5)),
+    ...overrides
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Maps the confidence a model states to how often verdicts with that
+ * confidence survived review. Reviewed or implemented feedback that records
+ * the original verdict and the corrected status is binned by stated
+ * confidence; pending feedback is left out until a reviewer accepts it.
+ * Within a bin the observed accuracy is blended with the stated score, so
+ * bins with few reviews stay close to what the model said.
+ */
+export class ConfidenceCalibrator {
+  private options: CalibrationOptions;
+  private bins: CalibrationBin[] = [];
+  private samples = 0;
+
+  constructor(private feedbackHandler: FeedbackHandler = new FeedbackHandler(), options: Partial<CalibrationOptions> = {}) {
+    this.options = getCalibrationOptions(options);
+    this.refresh();
+  }
+
+  /**
+   * Refit the bins from the reviewer feedback on disk
+   */
+  public refresh(): void {
+    const { binCount } = this.options;
+    const reviewed = this.feedbackHandler.getFeedback().filter(ConfidenceCalibrator.isCalibrationSample);
+    const counts = Array.from({ length: binCount }, () => ({ samples: 0, correct: 0 }));
+    for (const feedback of reviewed) {
+      const bin = counts[this.binIndex(feedback.original_confidence!)];
+      bin.samples++;
+      if (feedback.corrected_status === feedback.original_status) {
+        bin.correct++;
+      }
+    }
+
+    this.samples = reviewed.length;
+    this.bins = counts.map((count, index) => {
+      const lower = index / binCount;
+      const upper = (index + 1) / binCount;
+      return {
+        lower: round(lower),
+        upper: round(upper),
+        ...count,
+        calibrated: round(this.blend(count.samples, count.correct, (lower + upper) / 2))
+      };
+    });
+  }
+
+  /**
+   * Calibrated confidence for a score the model stated
+   */
+  public calibrate(rawConfidence: number): number {
+    const raw = Math.min(1, Math.max(0, rawConfidence));
+    const bin = this.bins[this.binIndex(raw)];
+    return round(this.blend(bin.samples, bin.correct, raw));
+  }
+
+  public getSummary(): CalibrationSummary {
+    return {
+      samples: this.samples,
+      prior_weight: this.options.priorWeight,
+      bins: this.bins.map(bin => ({ ...bin }))
+    };
+  }
+
+  private blend(samples: number, correct: number, raw: number): number {
+    const weight = this.options.priorWeight;
+    return samples + weight === 0 ? raw : (correct + weight * raw) / (samples + weight);
+  }
+
+  private binIndex(confidence: number): number {
+    return Math.min(this.options.binCount - 1, Math.max(0, Math.floor(confidence * this.options.binCount)));
+  }
+
+  private static isCalibrationSample(feedback: Correction): boolean {
+    return feedback.status !== 'pending'
+      && typeof feedback.original_confidence === 'number'
+      && feedback.original_confidence >= 0
+      && feedback.original_confidence <= 1
+      && !!feedback.original_status
+      && !!feedback.corrected_status;
+  }
+}
@@ -1,15 +1,108 @@
 import fs from 'fs';
 import path from 'path';
-import { Law, Feature } from '../types';
-import { getCSVPath } from '../utils/pathUtils';
+import { CSVLoadReport, Law, LawInput, LawRecord, LawRequest, LawUpsertReport, Feature, Provision } from '../types';
+import { LawIndex } from './lawIndex';
+import { Storage, getStorage } from './storage';
+
+export class LawError extends Error {
+  constructor(message: string, public readonly status: number = 400, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'LawError';
+  }
+}
+
+const slugify = (value: string) => value
+  .normalize('NFKD')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+/**
+ * Give provisions without an id the id of their law: the one its other
+ * provisions already have, or for a new law the slug of the title, with the
+ * jurisdiction appended when the same title exists in several jurisdictions.
+ * Ids are stored with the provisions, so a law keeps its id when renamed.
+ */
+export function assignLawIds(laws: Law[]): Law[] {
+  const lawKey = (law: Law) => `${slugify(law.law_title)}\n${law['country-region']}`;
+  const jurisdictionsByTitle = new Map<string, Set<string>>();
+  const idByLaw = new Map<string, string>();
+  const used = new Set<string>();
+  for (const law of laws) {
+    const slug = slugify(law.law_title);
+    jurisdictionsByTitle.set(slug, (jurisdictionsByTitle.get(slug) || new Set()).add(law['country-region']));
+    if (law.law_id) {
+      used.add(law.law_id);
+      if (!idByLaw.has(lawKey(law))) {
+        idByLaw.set(lawKey(law), law.law_id);
+      }
+    }
+  }
+  return laws.map(law => {
+    if (law.law_id) {
+      return law;
+    }
+    let id = idByLaw.get(lawKey(law));
+    if (!id) {
+      const slug = slugify(law.law_title) || 'law';
+      const base = jurisdictionsByTitle.get(slugify(law.law_title))!.size > 1 ? `${slug}-${slugify(law['country-region'])}` : slug;
+      // A renamed law may still hold the id this title would get
+      id = base;
+      for (let n = 2; used.has(id); n++) {
+        id = `${base}-${n}`;
+      }
+      used.add(id);
+      idByLaw.set(lawKey(law), id);
+    }
+    return { ...law, law_id: id };
+  });
+}
+
+/**
+ * Jurisdictions from REGIONS_JSON_PATH that laws may be filed under, in
+ * addition to the ones the stored laws already use
+ */
+export function loadKnownRegions(): string[] {
+  const regionsPath = path.resolve(process.env.REGIONS_JSON_PATH || './src/data/regions.json');
+  try {
+    if (fs.existsSync(regionsPath)) {
+      const regions: unknown = JSON.parse(fs.readFileSync(regionsPath, 'utf8')).regions;
+      return Array.isArray(regions) ? regions.filter((region): region is string => typeof region === 'string') : [];
+    }
+  } catch (error) {
+    console.warn('Could not load regions:', error);
+  }
+  return [];
+}
+
+// Request bodies are untrusted; numeric indices are accepted
+const text = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+// A provision of a new law, or of the law with this id
+const toRow = (title: string, jurisdiction: string, provision: Provision, lawId = ''): Law => ({
+  index: provision.index,
+  law_description: provision.text,
+  law_title: title,
+  'country-region': jurisdiction,
+  law_id: lawId
+});
+
+const sameLaw = (a: LawInput, b: Pick<LawInput, 'law_title' | 'country-region'>) =>
+  slugify(a.law_title) === slugify(b.law_title) && a['country-region'] === b['country-region'];
 
 export class DataHandler {
   private laws: Law[] = [];
   private features: Feature[] = [];
+  private lawRecords: LawRecord[] = [];
+  private lawIndex = new LawIndex([]);
+  private loadReport: { laws?: CSVLoadReport; features?: CSVLoadReport } = {};
+  private storage: Storage;
   private isInitialized = false;
   private initializationPromise: Promise<void>;
 
-  constructor() {
+  constructor(storage: Storage = getStorage()) {
+    this.storage = storage;
     // Start initialization and store the promise
     this.initializationPromise = this.initialize();
     
@@ -33,6 +126,8 @@ export class DataHandler {
       
       await this.loadLaws();
       await this.loadFeatures();
+      this.lawRecords = this.groupLaws();
+      this.lawIndex = new LawIndex(this.laws);
       
       console.log(`Initialization complete. Loaded ${this.laws.length} laws and ${this.features.length} features`);
       this.isInitialized = true;
@@ -46,58 +141,18 @@ export class DataHandler {
 
   private async loadLaws(): Promise<void> {
     try {
-      // Use shared path utility function
-      const lawsPath = getCSVPath('laws.csv');
-      
-      console.log('Loading laws from:', lawsPath);
-      console.log('Current working directory:', process.cwd());
-      console.log('__dirname:', __dirname);
-      
-      if (!fs.existsSync(lawsPath)) {
-        throw new Error(`Laws CSV file not found at: ${lawsPath}`);
-      }
-
-      const fileContent = fs.readFileSync(lawsPath, 'utf8');
-      console.log('Laws CSV file size:', fileContent.length);
-      
-      const lines = fileContent.split('\n').filter(line => line.trim());
-      console.log('Total lines in laws CSV:', lines.length);
-      
-      if (lines.length < 2) {
-        throw new Error('Laws CSV has insufficient data');
-      }
-
-      const headers = lines[0].split(',').map(h => h.trim());
-      console.log('Laws CSV headers:', headers);
-      
-      const results: Law[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        
-        // Handle CSV with commas in quoted fields
-        const values = this.parseCSVLine(line);
-        console.log(`Line ${i}: ${line} -> Parsed values:`, values);
-        if (values.length >= 4) {
-          const law: Law = {
-            index: values[0]?.trim() || '',
-            law_description: values[1]?.trim() || '',
-            law_title: values[2]?.trim() || '',
-            'country-region': values[3]?.trim() || ''
-          };
-          results.push(law);
-          console.log('Parsed law:', law);
-        } else {
-          console.warn(`Line ${i} has insufficient values: ${values.length} expected 4`);
-        }
+      console.log(`Loading laws from ${this.storage.backend} storage`);
+      const { records: results, report } = await this.storage.laws.load();
+      if (report) {
+        this.logRowErrors('laws', report);
+        this.loadReport.laws = report;
       }
       
-      this.laws = results;
+      this.laws = assignLawIds(results);
       console.log(`Loaded ${results.length} laws successfully`);
       
       if (results.length === 0) {
-        throw new Error('No laws were loaded from the CSV file');
+        throw new Error('No laws were loaded');
       }
       
     } catch (error) {
@@ -108,51 +163,18 @@ export class DataHandler {
 
   private async loadFeatures(): Promise<void> {
     try {
-      // Use shared path utility function
-      const featuresPath = getCSVPath('features.csv');
-      
-      console.log('Loading features from:', featuresPath);
-      
-      if (!fs.existsSync(featuresPath)) {
-        throw new Error(`Features CSV file not found at: ${featuresPath}`);
-      }
-
-      const fileContent = fs.readFileSync(featuresPath, 'utf8');
-      console.log('Features CSV file size:', fileContent.length);
-      
-      const lines = fileContent.split('\n').filter(line => line.trim());
-      console.log('Total lines in features CSV:', lines.length);
-      
-      if (lines.length < 2) {
-        throw new Error('Features CSV has insufficient data');
-      }
-
-      const headers = lines[0].split(',').map(h => h.trim());
-      console.log('Features CSV headers:', headers);
-      
-      const results: Feature[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        
-        // Handle CSV with commas in quoted fields
-        const values = this.parseCSVLine(line);
-        if (values.length >= 2) {
-          const feature: Feature = {
-            feature_name: values[0]?.trim() || '',
-            feature_description: values[1]?.trim() || ''
-          };
-          results.push(feature);
-          console.log('Parsed feature:', feature);
-        }
+      console.log(`Loading features from ${this.storage.backend} storage`);
+      const { records: results, report } = await this.storage.features.load();
+      if (report) {
+        this.logRowErrors('features', report);
+        this.loadReport.features = report;
       }
       
       this.features = results;
       console.log(`Loaded ${results.length} features successfully`);
       
       if (results.length === 0) {
-        throw new Error('No features were loaded from the CSV file');
+        throw new Error('No features were loaded');
       }
       
     } catch (error) {
@@ -160,26 +182,18 @@ export class DataHandler {
     }
   }
 
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
+  private logRowErrors(name: string, report: CSVLoadReport): void {
+    if (report.errors.length > 0) {
+      console.warn(`Skipped ${report.errors.length} ${name} row(s) in ${report.file}:\n${report.errors.map(e => `row ${e.row}: ${e.message}`).join('\n')}`);
     }
-    
-    result.push(current);
-    return result;
+  }
+
+  /**
+   * Rows read from laws.csv and features.csv at the last load, and the rows skipped with why.
+   * Empty with SQLite storage.
+   */
+  public getLoadReport(): { laws?: CSVLoadReport; features?: CSVLoadReport } {
+    return { ...this.loadReport };
   }
 
   public getLaws(): Law[] {
@@ -190,10 +204,294 @@ export class DataHandler {
     return [...this.features];
   }
 
+  public getLawIndex(): LawIndex {
+    return this.lawIndex;
+  }
+
+  /**
+   * First provision of the law with this title; use getLawRecord for all of them
+   */
   public getLawByTitle(lawTitle: string): Law | undefined {
     return this.laws.find(law => law.law_title === lawTitle);
   }
 
+  public getLawRecords(): LawRecord[] {
+    return this.lawRecords.map(record => ({ ...record, provisions: [...record.provisions] }));
+  }
+
+  /**
+   * Law by id, or by exact title for older clients
+   */
+  public getLawRecord(lawIdOrTitle: string): LawRecord | undefined {
+    const record = this.lawRecords.find(r => r.id === lawIdOrTitle) || this.lawRecords.find(r => r.title === lawIdOrTitle);
+    return record ? { ...record, provisions: [...record.provisions] } : undefined;
+  }
+
+  public getProvision(lawId: string, index: string): Law | undefined {
+    return this.laws.find(law => law.law_id === lawId && law.index === index);
+  }
+
+  private groupLaws(): LawRecord[] {
+    const records = new Map<string, LawRecord>();
+    for (const law of this.laws) {
+      if (!records.has(law.law_id)) {
+        records.set(law.law_id, { id: law.law_id, title: law.law_title, jurisdiction: law['country-region'], provisions: [] });
+      }
+      const provision: Provision = { index: law.index, text: law.law_description };
+      records.get(law.law_id)!.provisions.push(provision);
+    }
+    return [...records.values()];
+  }
+
+  /**
+   * Jurisdictions a law may be filed under: the configured ones and the ones in use
+   */
+  public getRegions(): string[] {
+    return [...new Set([...loadKnownRegions(), ...this.laws.map(law => law['country-region'])])];
+  }
+
+  /**
+   * Add a law with at least one provision
+   */
+  public async createLaw(request: Partial<LawRequest>): Promise<LawRecord> {
+    const { title, jurisdiction } = this.checkLaw(request);
+    const provisions = this.checkProvisions(request.provisions);
+    const current = [...this.laws];
+    if (current.some(law => sameLaw(law, { law_title: title, 'country-region': jurisdiction }))) {
+      throw new LawError(`A law titled "${title}" already exists in ${jurisdiction}`, 409);
+    }
+    const added = provisions.map(provision => toRow(title, jurisdiction, provision));
+    await this.saveLaws([...current, ...added], added);
+    return this.findLawRecord(title, jurisdiction);
+  }
+
+  /**
+   * Rename a law or move it to another jurisdiction, and replace its provisions
+   * when the request lists them. The law keeps its id.
+   */
+  public async updateLaw(lawId: string, request: Partial<LawRequest>): Promise<LawRecord | undefined> {
+    const record = this.getLawRecord(lawId);
+    if (!record) {
+      return undefined;
+    }
+    const { title, jurisdiction } = this.checkLaw({
+      title: request.title ?? record.title,
+      jurisdiction: request.jurisdiction ?? record.jurisdiction
+    });
+    const provisions = request.provisions !== undefined ? this.checkProvisions(request.provisions) : record.provisions;
+    const others = this.laws.filter(law => law.law_id !== record.id);
+    if (others.some(law => sameLaw(law, { law_title: title, 'country-region': jurisdiction }))) {
+      throw new LawError(`A law titled "${title}" already exists in ${jurisdiction}`, 409);
+    }
+    // The law's provisions stay where its first one was
+    const position = this.laws.findIndex(law => law.law_id === record.id);
+    const rows = provisions.map(provision => toRow(title, jurisdiction, provision, record.id));
+    others.splice(position, 0, ...rows);
+    await this.saveLaws(others, rows);
+    return this.getLawRecord(record.id);
+  }
+
+  public async deleteLaw(lawId: string): Promise<boolean> {
+    const record = this.getLawRecord(lawId);
+    if (!record) {
+      return false;
+    }
+    await this.saveLaws(this.laws.filter(law => law.law_id !== record.id), []);
+    return true;
+  }
+
+  /**
+   * Add a provision to a law; undefined when there is no such law
+   */
+  public async addProvision(lawId: string, request: Partial<Provision>): Promise<Law | undefined> {
+    const record = this.getLawRecord(lawId);
+    if (!record) {
+      return undefined;
+    }
+    const [provision] = this.checkProvisions([request]);
+    const law = toRow(record.title, record.jurisdiction, provision, record.id);
+    await this.saveLaws(this.insertProvisions([...this.laws], [law]), [law]);
+    return this.laws.find(saved => saved.index === law.index);
+  }
+
+  /**
+   * Change a provision's text or index; undefined when the law or provision does not exist
+   */
+  public async updateProvision(lawId: string, index: string, request: Partial<Provision>): Promise<Law | undefined> {
+    const record = this.getLawRecord(lawId);
+    const position = record ? this.laws.findIndex(law => law.law_id === record.id && law.index === index) : -1;
+    if (!record || position === -1) {
+      return undefined;
+    }
+    const [provision] = this.checkProvisions([{
+      index: request.index ?? index,
+      text: request.text ?? this.laws[position].law_description
+    }]);
+    const laws = [...this.laws];
+    laws[position] = toRow(record.title, record.jurisdiction, provision, record.id);
+    await this.saveLaws(laws, [laws[position]]);
+    return this.laws[position];
+  }
+
+  /**
+   * Remove a provision; a law goes away with its last provision
+   */
+  public async deleteProvision(lawId: string, index: string): Promise<boolean> {
+    const record = this.getLawRecord(lawId);
+    const provision = record ? this.getProvision(record.id, index) : undefined;
+    if (!provision) {
+      return false;
+    }
+    await this.saveLaws(this.laws.filter(law => law !== provision), []);
+    return true;
+  }
+
+  /**
+   * Create or replace provisions by index, in the laws.csv row format. Nothing
+   * is saved unless every row is valid.
+   */
+  public async upsertLaws(rows: unknown): Promise<LawUpsertReport> {
+    if (!Array.isArray(rows) || rows.length === 0) {
+      throw new LawError('provisions must be a non-empty array');
+    }
+    const regions = this.getRegions();
+    const errors: string[] = [];
+    const rowByIndex = new Map<string, number>();
+    const checked = rows.map((row, i) => {
+      const law = this.checkRow(row, regions);
+      law.errors.forEach(error => errors.push(`row ${i + 1}: ${error}`));
+      const earlier = rowByIndex.get(law.row.index);
+      if (law.row.index && earlier !== undefined) {
+        errors.push(`row ${i + 1}: index "${law.row.index}" is also used on row ${earlier}`);
+      }
+      rowByIndex.set(law.row.index, earlier ?? i + 1);
+      return law.row;
+    });
+    if (errors.length > 0) {
+      throw new LawError(`${errors.length} problem(s) found; nothing was saved`, 400, errors);
+    }
+
+    const report: LawUpsertReport = { created: 0, updated: 0, unchanged: 0 };
+    const laws = [...this.laws];
+    const added: Law[] = [];
+    for (const row of checked) {
+      const position = laws.findIndex(law => law.index === row.index);
+      if (position === -1) {
+        added.push({ ...row, law_id: '' });
+        report.created++;
+      } else if ((Object.keys(row) as Array<keyof LawInput>).every(key => laws[position][key] === row[key])) {
+        report.unchanged++;
+      } else {
+        // A provision moved to another law takes that law's id
+        laws[position] = { ...row, law_id: sameLaw(laws[position], row) ? laws[position].law_id : '' };
+        report.updated++;
+      }
+    }
+    if (report.created > 0 || report.updated > 0) {
+      await this.saveLaws(this.insertProvisions(laws, added), added);
+    }
+    return report;
+  }
+
+  private checkLaw(request: Partial<LawRequest>): { title: string; jurisdiction: string } {
+    const title = text(request.title);
+    const jurisdiction = text(request.jurisdiction);
+    if (!title || !jurisdiction) {
+      throw new LawError('Missing required fields: title and jurisdiction are required');
+    }
+    return { title, jurisdiction: this.resolveRegion(jurisdiction, this.getRegions()) };
+  }
+
+  private checkProvisions(provisions: unknown): Provision[] {
+    if (!Array.isArray(provisions) || provisions.length === 0) {
+      throw new LawError('A law needs at least one provision');
+    }
+    return provisions.map(provision => {
+      const checked = { index: text(provision?.index), text: text(provision?.text) };
+      if (!checked.index || !checked.text) {
+        throw new LawError('Missing required fields: provision index and text are required');
+      }
+      return checked;
+    });
+  }
+
+  // A laws.csv row from a request body, trimmed, and what is wrong with it
+  private checkRow(value: unknown, regions: string[]): { row: LawInput; errors: string[] } {
+    const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const row: LawInput = {
+      index: text(input.index),
+      law_description: text(input.law_description),
+      law_title: text(input.law_title),
+      'country-region': text(input['country-region'])
+    };
+    const errors: string[] = [];
+    const missing = (Object.keys(row) as Array<keyof LawInput>).filter(key => !row[key]);
+    if (missing.length > 0) {
+      errors.push(`Missing required fields: ${missing.join(', ')}`);
+    }
+    if (row['country-region']) {
+      try {
+        row['country-region'] = this.resolveRegion(row['country-region'], regions);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+    return { row, errors };
+  }
+
+  // The known spelling of a jurisdiction, matched case-insensitively
+  private resolveRegion(jurisdiction: string, regions: string[]): string {
+    const region = regions.find(known => known.toLowerCase() === jurisdiction.toLowerCase());
+    if (!region) {
+      throw new LawError(`Unknown jurisdiction "${jurisdiction}". Expected one of: ${regions.join(', ')}`);
+    }
+    return region;
+  }
+
+  // A law's provisions are kept together, so new ones go after its last one
+  private insertProvisions(laws: Law[], added: Law[]): Law[] {
+    const result = [...laws];
+    for (const law of added) {
+      let position = result.length;
+      for (let i = result.length - 1; i >= 0; i--) {
+        if (sameLaw(result[i], law)) {
+          position = i + 1;
+          break;
+        }
+      }
+      result.splice(position, 0, law);
+    }
+    return result;
+  }
+
+  /**
+   * Write the provisions to storage, then serve them in place of the loaded ones.
+   * Changed rows must not reuse an index held by another row.
+   */
+  private async saveLaws(laws: Law[], changed: Law[]): Promise<void> {
+    const duplicates = changed.flatMap(row => {
+      const owner = laws.find(law => law !== row && law.index === row.index);
+      return owner ? [`Provision index "${row.index}" is already used by ${owner.law_title}`] : [];
+    });
+    if (duplicates.length > 0) {
+      throw new LawError(duplicates[0], 409, duplicates);
+    }
+    if (laws.length === 0) {
+      throw new LawError('The last provision cannot be deleted', 409);
+    }
+
+    const withIds = assignLawIds(laws);
+    await this.storage.laws.replaceAll(withIds);
+    this.laws = withIds;
+    this.lawRecords = this.groupLaws();
+    this.lawIndex = new LawIndex(this.laws);
+  }
+
+  private findLawRecord(title: string, jurisdiction: string): LawRecord {
+    const record = this.lawRecords.find(r => r.title === title && r.jurisdiction === jurisdiction)!;
+    return { ...record, provisions: [...record.provisions] };
+  }
+
   public getFeatureByName(featureName: string): Feature | undefined {
     const normalizedName = featureName.trim();
     return this.features.find(feature => 
@@ -250,33 +548,14 @@ export class DataHandler {
       this.features.push(newFeature);
       console.log(`Feature added to memory: ${featureName}`);
 
-      // Add to CSV file
-      const featuresPath = getCSVPath('features.csv');
-      console.log(`Writing feature to CSV: ${featuresPath}`);
-      
-      // Read existing CSV content
-      let csvContent = '';
-      if (fs.existsSync(featuresPath)) {
-        csvContent = fs.readFileSync(featuresPath, 'utf8');
-        // Remove trailing newline if exists
-        csvContent = csvContent.replace(/\n$/, '');
-      } else {
-        // Create new CSV with headers
-        csvContent = 'feature_name,feature_description\n';
-      }
-
-      // Add new feature row
-      const newRow = `"${newFeature.feature_name}","${newFeature.feature_description}"`;
-      csvContent += `\n${newRow}`;
-
-      // Write back to CSV
-      fs.writeFileSync(featuresPath, csvContent, 'utf8');
-      console.log(`Feature successfully written to CSV: ${featureName}`);
+      // Persist
+      await this.storage.features.add(newFeature);
+      console.log(`Feature successfully written to ${this.storage.backend} storage: ${featureName}`);
 
       return true;
     } catch (error) {
-      console.error('Error adding feature to CSV:', error);
-      // Remove from memory if CSV write failed
+      console.error('Error saving feature:', error);
+      // Remove from memory if the write failed
       this.features = this.features.filter(f => f.feature_name !== featureName);
       return false;
     }
@@ -0,0 +1,71 @@
+import { ComplianceStatus, EnsembleVote, EnsembleVoting } from '../types';
+import { getNumberEnv } from '../utils/envUtils';
+
+export interface EnsembleOptions {
+  // "provider:model" specs; empty means the assessment model alone
+  models: string[];
+  // Calls per model; samples after the first use sampleTemperature
+  samples: number;
+  voting: EnsembleVoting;
+  sampleTemperature: number;
+}
+
+const VOTING_METHODS: EnsembleVoting[] = ['majority', 'unanimous', 'strictest'];
+
+// Higher is more severe
+export const STATUS_SEVERITY: Record<ComplianceStatus, number> = {
+  compliant: 0,
+  requires_review: 1,
+  'non-compliant': 2
+};
+
+export function isEnsembleVoting(value: unknown): value is EnsembleVoting {
+  return typeof value === 'string' && VOTING_METHODS.includes(value as EnsembleVoting);
+}
+
+/**
+ * Ensemble settings from ASSESSMENT_ENSEMBLE_MODELS (comma-separated),
+ * ASSESSMENT_ENSEMBLE_SAMPLES, ASSESSMENT_ENSEMBLE_VOTING and
+ * ASSESSMENT_ENSEMBLE_TEMPERATURE. A single model is sampled three times by default.
+ */
+export function getEnsembleOptions(overrides: Partial<EnsembleOptions> = {}): EnsembleOptions {
+  const models = overrides.models ?? (process.env.ASSESSMENT_ENSEMBLE_MODELS || '')
+    .split(',')
+    .map(spec => spec.trim())
+    .filter(Boolean);
+  const voting = process.env.ASSESSMENT_ENSEMBLE_VOTING;
+  return {
+    models,
+    samples: Math.max(1, Math.floor(getNumberEnv('ASSESSMENT_ENSEMBLE_SAMPLES', models.length > 1 ? 1 : 3))),
+    voting: isEnsembleVoting(voting) ? voting : 'majority',
+    sampleTemperature: getNumberEnv('ASSESSMENT_ENSEMBLE_TEMPERATURE', 0.7),
+    ...overrides
+  };
+}
+
+/**
+ * Combine member verdicts into one status. The result is contested whenever
+ * the members did not all return the same status, whatever the voting method.
+ */
+export function tallyVotes(votes: EnsembleVote[], voting: EnsembleVoting): { status: ComplianceStatus; contested: boolean } {
+  const statuses = votes.map(vote => vote.compliance_status);
+  const contested = new Set(statuses).size > 1;
+  if (statuses.length === 0) {
+    return { status: 'requires_review', contested: false };
+  }
+
+  switch (voting) {
+    case 'unanimous':
+      return { status: contested ? 'requires_review' : statuses[0], contested };
+    case 'strictest':
+      return { status: statuses.reduce((worst, status) => STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst), contested };
+    case 'majority':
+    default: {
+      const counts = new Map<ComplianceStatus, number>();
+      statuses.forEach(status => counts.set(status, (counts.get(status) || 0) + 1));
+      const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+      const tied = ranked.length > 1 && ranked[0][1] === ranked[1][1];
+      return { status: tied ? 'requires_review' : ranked[0][0], contested };
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { EvidenceClaim, EvidenceSpan } from '../types';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Models often swap typographic quotes and dashes for plain ones
+const normalizeQuote = (value: string) => value
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .trim();
+
+/**
+ * Find a quote in a text. An exact match wins; otherwise the quote's words are
+ * matched ignoring case, whitespace and typographic punctuation, and the
+ * span returned is the text as written.
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | undefined {
+  const trimmed = quote.trim().replace(/^["'“‘]+|["'”’]+$/g, '').trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) {
+    return { start: exact, end: exact + trimmed.length };
+  }
+
+  const pattern = normalizeQuote(trimmed)
+    .split(/\s+/)
+    .map(word => escapeRegExp(word)
+      .replace(/'/g, "['‘’]")
+      .replace(/"/g, '["“”]')
+      .replace(/-/g, '[-–—]'))
+    .join('\\s+');
+  const match = new RegExp(pattern, 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : undefined;
+}
+
+/**
+ * Keep only the evidence that quotes the feature description verbatim. The
+ * provision quote is kept when it is found in the provision text and dropped
+ * otherwise. Spans are returned in reading order without duplicates.
+ */
+export function verifyEvidence(
+  claims: EvidenceClaim[] | undefined,
+  featureDescription: string,
+  lawDescription: string
+): { evidence: EvidenceSpan[]; rejected: number } {
+  const evidence: EvidenceSpan[] = [];
+  let rejected = 0;
+
+  for (const claim of claims || []) {
+    const span = locateQuote(featureDescription, claim.feature_quote);
+    if (!span) {
+      rejected++;
+      continue;
+    }
+    if (evidence.some(existing => existing.start === span.start && existing.end === span.end)) {
+      continue;
+    }
+    const lawSpan = claim.law_quote ? locateQuote(lawDescription, claim.law_quote) : undefined;
+    evidence.push({
+      quote: featureDescription.slice(span.start, span.end),
+      start: span.start,
+      end: span.end,
+      ...(lawSpan ? {
+        law_quote: lawDescription.slice(lawSpan.start, lawSpan.end),
+        law_start: lawSpan.start,
+        law_end: lawSpan.end
+      } : {})
+    });
+  }
+
+  return { evidence: evidence.sort((a, b) => a.start - b.start), rejected };
+}
@@ -1,58 +1,15 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { FeedbackRequest, FeedbackResponse, Correction } from '../types';
+import { FeedbackRepository, getStorage } from './storage';
 
 export class FeedbackHandler {
-  private correctionsPath: string;
+  private repository: FeedbackRepository;
 
-  constructor() {
-    this.correctionsPath = path.resolve(process.env.CORRECTIONS_JSON_PATH || './src/data/corrections.json');
-    this.ensureCorrectionsFile();
-  }
-
-  private ensureCorrectionsFile(): void {
-    const dir = path.dirname(this.correctionsPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    if (!fs.existsSync(this.correctionsPath)) {
-      const initialData = {
-        corrections: [],
-        feedback: [],
-        lastUpdated: new Date().toISOString()
-      };
-      fs.writeFileSync(this.correctionsPath, JSON.stringify(initialData, null, 2));
-    }
-  }
-
-  private readCorrectionsFile(): any {
-    try {
-      const data = fs.readFileSync(this.correctionsPath, 'utf8');
-      return JSON.parse(data);
-    } catch (error) {
-      console.error('Error reading corrections file:', error);
-      return {
-        corrections: [],
-        feedback: [],
-        lastUpdated: new Date().toISOString()
-      };
-    }
-  }
-
-  private writeCorrectionsFile(data: any): void {
-    try {
-      data.lastUpdated = new Date().toISOString();
-      fs.writeFileSync(this.correctionsPath, JSON.stringify(data, null, 2));
-    } catch (error) {
-      console.error('Error writing corrections file:', error);
-      throw new Error('Failed to save feedback');
-    }
+  constructor(repository: FeedbackRepository = getStorage().feedback) {
+    this.repository = repository;
   }
 
   public async submitFeedback(feedback: FeedbackRequest): Promise<FeedbackResponse> {
     try {
-      const data = this.readCorrectionsFile();
       const feedbackId = this.generateId();
 
       const newFeedback: Correction = {
@@ -63,17 +20,13 @@ export class FeedbackHandler {
         message: feedback.message,
         user_email: feedback.user_email,
         timestamp: new Date().toISOString(),
-        status: 'pending'
+        status: 'pending',
+        ...(feedback.original_status ? { original_status: feedback.original_status } : {}),
+        ...(typeof feedback.original_confidence === 'number' ? { original_confidence: feedback.original_confidence } : {}),
+        ...(feedback.corrected_status ? { corrected_status: feedback.corrected_status } : {})
       };
 
-      data.feedback.push(newFeedback);
-
-      // If it's a correction, also add it to corrections
-      if (feedback.feedback_type === 'correction') {
-        data.corrections.push(newFeedback);
-      }
-
-      this.writeCorrectionsFile(data);
+      this.repository.add(newFeedback);
 
       return {
         success: true,
@@ -92,8 +45,7 @@ export class FeedbackHandler {
 
   public getCorrections(): Correction[] {
     try {
-      const data = this.readCorrectionsFile();
-      return data.corrections || [];
+      return this.repository.listCorrections();
     } catch (error) {
       console.error('Error reading corrections:', error);
       return [];
@@ -102,8 +54,7 @@ export class FeedbackHandler {
 
   public getFeedback(): Correction[] {
     try {
-      const data = this.readCorrectionsFile();
-      return data.feedback || [];
+      return this.repository.listFeedback();
     } catch (error) {
       console.error('Error reading feedback:', error);
       return [];
@@ -124,21 +75,7 @@ export class FeedbackHandler {
 
   public updateCorrectionStatus(correctionId: string, status: 'pending' | 'reviewed' | 'implemented'): boolean {
     try {
-      const data = this.readCorrectionsFile();
-      
-      // Update in corrections array
-      const correctionIndex = data.corrections.findIndex((c: Correction) => c.id === correctionId);
-      if (correctionIndex !== -1) {
-        data.corrections[correctionIndex].status = status;
-      }
-
-      // Update in feedback array
-      const feedbackIndex = data.feedback.findIndex((f: Correction) => f.id === correctionId);
-      if (feedbackIndex !== -1) {
-        data.feedback[feedbackIndex].status = status;
-      }
-
-      this.writeCorrectionsFile(data);
+      this.repository.updateStatus(correctionId, status);
       return true;
     } catch (error) {
       console.error('Error updating correction status:', error);
@@ -148,12 +85,7 @@ export class FeedbackHandler {
 
   public deleteCorrection(correctionId: string): boolean {
     try {
-      const data = this.readCorrectionsFile();
-      
-      data.corrections = data.corrections.filter((c: Correction) => c.id !== correctionId);
-      data.feedback = data.feedback.filter((f: Correction) => f.id !== correctionId);
-
-      this.writeCorrectionsFile(data);
+      this.repository.delete(correctionId);
       return true;
     } catch (error) {
       console.error('Error deleting correction:', error);
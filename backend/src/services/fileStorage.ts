@@ -0,0 +1,314 @@
+import fs from 'fs';
+import path from 'path';
+import { Correction, Feature, Law, StoredRun, StoredRunSummary } from '../types';
+import { getCSVPath } from '../utils/pathUtils';
+import { getNumberEnv } from '../utils/envUtils';
+import { CSVColumn, CSVReadResult, appendCSVRow, readCSV, writeCSV } from '../utils/csv';
+import {
+  FeatureRepository,
+  FeedbackRepository,
+  LawRepository,
+  RepositoryLoad,
+  ResultRepository,
+  Storage,
+  summarizeRun
+} from './storage';
+
+const LAW_COLUMNS: CSVColumn[] = [
+  { key: 'index', aliases: ['provision', 'provision_index'], required: true },
+  { key: 'law_description', aliases: ['description', 'provision_text', 'text'], required: true },
+  { key: 'law_title', aliases: ['title', 'law'], required: true },
+  { key: 'country-region', aliases: ['jurisdiction', 'country', 'region'], required: true },
+  // Written once laws are edited; older files get ids from their titles on load
+  { key: 'law_id' }
+];
+
+const FEATURE_COLUMNS: CSVColumn[] = [
+  { key: 'feature_name', aliases: ['name', 'feature'], required: true },
+  { key: 'feature_description', aliases: ['description'], required: true }
+];
+
+const standardHeaders = (columns: CSVColumn[]): CSVReadResult['headers'] => columns.map(column => ({ name: column.key, key: column.key }));
+
+// A record's values in the file's column order; columns the app does not use are left empty
+const rowValues = (headers: CSVReadResult['headers'], record: Record<string, string>) =>
+  headers.map(header => header.key ? record[header.key] ?? '' : '');
+
+/**
+ * Provisions in laws.csv
+ */
+export class FileLawRepository implements LawRepository {
+  private headers = standardHeaders(LAW_COLUMNS);
+
+  public async load(): Promise<RepositoryLoad<Law>> {
+    const lawsPath = getCSVPath('laws.csv');
+    if (!fs.existsSync(lawsPath)) {
+      throw new Error(`Laws CSV file not found at: ${lawsPath}`);
+    }
+    console.log('Loading laws from:', lawsPath);
+    const { headers, rows, report } = await readCSV(lawsPath, LAW_COLUMNS);
+    console.log('Laws CSV headers:', headers.map(header => header.name));
+    this.headers = headers;
+    const records: Law[] = rows.map(row => ({
+      index: row.index,
+      law_description: row.law_description,
+      law_title: row.law_title,
+      'country-region': row['country-region'],
+      law_id: row.law_id || ''
+    }));
+    return { records, report };
+  }
+
+  public async replaceAll(laws: Law[]): Promise<void> {
+    // Law ids must survive renames, so the column is added to files that lack it
+    if (!this.headers.some(header => header.key === 'law_id')) {
+      this.headers = [...this.headers, { name: 'law_id', key: 'law_id' }];
+    }
+    writeCSV(getCSVPath('laws.csv'), this.headers.map(header => header.name), laws.map(law => rowValues(this.headers, { ...law })));
+  }
+}
+
+/**
+ * Features in features.csv. Rows are written in the file's column order.
+ */
+export class FileFeatureRepository implements FeatureRepository {
+  private headers = standardHeaders(FEATURE_COLUMNS);
+
+  public async load(): Promise<RepositoryLoad<Feature>> {
+    const featuresPath = getCSVPath('features.csv');
+    if (!fs.existsSync(featuresPath)) {
+      throw new Error(`Features CSV file not found at: ${featuresPath}`);
+    }
+    console.log('Loading features from:', featuresPath);
+    const { headers, rows, report } = await readCSV(featuresPath, FEATURE_COLUMNS);
+    console.log('Features CSV headers:', headers.map(header => header.name));
+    this.headers = headers;
+    const records: Feature[] = rows.map(row => ({
+      feature_name: row.feature_name,
+      feature_description: row.feature_description
+    }));
+    return { records, report };
+  }
+
+  public async add(feature: Feature): Promise<void> {
+    appendCSVRow(getCSVPath('features.csv'), this.headers.map(header => header.name), rowValues(this.headers, { ...feature }));
+  }
+
+  public async replaceAll(features: Feature[]): Promise<void> {
+    writeCSV(getCSVPath('features.csv'), this.headers.map(header => header.name), features.map(feature => rowValues(this.headers, { ...feature })));
+  }
+}
+
+interface CorrectionsFile {
+  corrections: Correction[];
+  feedback: Correction[];
+  lastUpdated: string;
+}
+
+/**
+ * Feedback in corrections.json, which keeps corrections in a list of their own
+ * as well as in the feedback list. The file is re-read on every call so edits
+ * made by hand are picked up.
+ */
+export class FileFeedbackRepository implements FeedbackRepository {
+  private correctionsPath: string;
+
+  constructor(correctionsPath = process.env.CORRECTIONS_JSON_PATH || './src/data/corrections.json') {
+    this.correctionsPath = path.resolve(correctionsPath);
+    this.ensureCorrectionsFile();
+  }
+
+  public listFeedback(): Correction[] {
+    return this.read().feedback || [];
+  }
+
+  public listCorrections(): Correction[] {
+    return this.read().corrections || [];
+  }
+
+  public add(entry: Correction): void {
+    const data = this.read();
+    data.feedback.push(entry);
+    if (entry.feedback_type === 'correction') {
+      data.corrections.push(entry);
+    }
+    this.write(data);
+  }
+
+  public updateStatus(id: string, status: Correction['status']): void {
+    const data = this.read();
+    [...data.corrections, ...data.feedback].filter(entry => entry.id === id).forEach(entry => entry.status = status);
+    this.write(data);
+  }
+
+  public delete(id: string): void {
+    const data = this.read();
+    data.corrections = data.corrections.filter(entry => entry.id !== id);
+    data.feedback = data.feedback.filter(entry => entry.id !== id);
+    this.write(data);
+  }
+
+  private ensureCorrectionsFile(): void {
+    const dir = path.dirname(this.correctionsPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    if (!fs.existsSync(this.correctionsPath)) {
+      const initialData: CorrectionsFile = {
+        corrections: [],
+        feedback: [],
+        lastUpdated: new Date().toISOString()
+      };
+      fs.writeFileSync(this.correctionsPath, JSON.stringify(initialData, null, 2));
+    }
+  }
+
+  private read(): CorrectionsFile {
+    try {
+      const data = fs.readFileSync(this.correctionsPath, 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error reading corrections file:', error);
+      return {
+        corrections: [],
+        feedback: [],
+        lastUpdated: new Date().toISOString()
+      };
+    }
+  }
+
+  private write(data: CorrectionsFile): void {
+    try {
+      data.lastUpdated = new Date().toISOString();
+      fs.writeFileSync(this.correctionsPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing corrections file:', error);
+      throw new Error('Failed to save feedback');
+    }
+  }
+}
+
+/**
+ * Compliance runs in results.jsonl, one per line, newest last. Runs are
+ * appended, and once the file holds RESULTS_MAX_RUNS of them it is rotated to
+ * results.jsonl.1 (replacing the previous rotation), so the newest
+ * RESULTS_MAX_RUNS to twice that many runs are kept.
+ */
+export class FileResultRepository implements ResultRepository {
+  private resultsPath: string;
+  private maxRuns: number;
+  // Lines in the current file, counted on first use
+  private lineCount: number | null = null;
+
+  constructor(
+    resultsPath = process.env.RESULTS_JSON_PATH || './src/data/results.jsonl',
+    maxRuns = getNumberEnv('RESULTS_MAX_RUNS', 1000)
+  ) {
+    this.resultsPath = path.resolve(resultsPath);
+    this.maxRuns = Math.max(1, maxRuns);
+    this.convertLegacyFile();
+  }
+
+  public add(run: StoredRun): void {
+    fs.mkdirSync(path.dirname(this.resultsPath), { recursive: true });
+    if (this.countLines() >= this.maxRuns) {
+      fs.renameSync(this.resultsPath, this.rotatedPath());
+      this.lineCount = 0;
+    }
+    fs.appendFileSync(this.resultsPath, `${JSON.stringify(run)}\n`);
+    this.lineCount = this.countLines() + 1;
+  }
+
+  public list(limit = 50): StoredRunSummary[] {
+    return this.read().slice(-limit).reverse().map(summarizeRun);
+  }
+
+  public get(id: string): StoredRun | undefined {
+    return this.read().find(run => run.id === id);
+  }
+
+  private rotatedPath(): string {
+    return `${this.resultsPath}.1`;
+  }
+
+  private countLines(): number {
+    if (this.lineCount === null) {
+      this.lineCount = fs.existsSync(this.resultsPath)
+        ? fs.readFileSync(this.resultsPath, 'utf8').split('\n').filter(line => line.trim()).length
+        : 0;
+    }
+    return this.lineCount;
+  }
+
+  /**
+   * Runs from the rotated and current files; a run added again replaces its earlier line
+   */
+  private read(): StoredRun[] {
+    const runs = new Map<string, StoredRun>();
+    for (const file of [this.rotatedPath(), this.resultsPath]) {
+      for (const run of this.readFile(file)) {
+        runs.delete(run.id);
+        runs.set(run.id, run);
+      }
+    }
+    return [...runs.values()];
+  }
+
+  private readFile(file: string): StoredRun[] {
+    try {
+      if (!fs.existsSync(file)) {
+        return [];
+      }
+      return fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim()).flatMap(line => {
+        try {
+          return [JSON.parse(line) as StoredRun];
+        } catch {
+          // An interrupted write leaves a partial last line
+          console.warn(`Skipping unreadable line in ${file}`);
+          return [];
+        }
+      });
+    } catch (error) {
+      console.error('Error reading results file:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rewrite a results file from before runs were appended - { "runs": [...] },
+   * at the configured path or as results.json beside it - one run per line
+   */
+  private convertLegacyFile(): void {
+    const legacyPath = fs.existsSync(this.resultsPath) ? this.resultsPath : this.resultsPath.replace(/\.jsonl$/, '.json');
+    if (!fs.existsSync(legacyPath)) {
+      return;
+    }
+    let runs: StoredRun[];
+    try {
+      runs = JSON.parse(fs.readFileSync(legacyPath, 'utf8')).runs;
+    } catch {
+      // Not a single JSON document, so already one run per line
+      return;
+    }
+    if (!Array.isArray(runs)) {
+      return;
+    }
+    fs.writeFileSync(this.resultsPath, runs.map(run => `${JSON.stringify(run)}\n`).join(''));
+    console.log(`Converted ${runs.length} runs from ${legacyPath} to ${this.resultsPath}`);
+  }
+}
+
+/**
+ * The original file layout: CSV files for laws and features, JSON files for
+ * feedback and results
+ */
+export function createFileStorage(): Storage {
+  return {
+    backend: 'file',
+    laws: new FileLawRepository(),
+    features: new FileFeatureRepository(),
+    feedback: new FileFeedbackRepository(),
+    results: new FileResultRepository()
+  };
+}
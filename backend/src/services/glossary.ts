@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  GlossaryContext,
+  GlossaryEntry,
+  GlossaryEntryRequest,
+  GlossaryExpansion,
+  GlossaryScope
+} from '../types';
+
+export class GlossaryError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'GlossaryError';
+  }
+}
+
+const SCOPES: GlossaryScope[] = ['global', 'team', 'jurisdiction'];
+
+// All-caps acronyms that are general vocabulary rather than internal codes
+const COMMON_ACRONYMS = new Set(['US', 'USA', 'EU', 'UK', 'ID', 'OK', 'AI', 'ML', 'UI', 'UX', 'URL', 'FAQ', 'PDF', 'IP', 'OS', 'PR']);
+
+// Acronyms (ASL, T5, CDS) and CamelCase codenames (EchoTrace, ShadowMode)
+const CANDIDATE_PATTERN = /(?<![A-Za-z0-9])(?:[A-Z]{2,6}[0-9]?|[A-Z][0-9]|[A-Z][a-z]+(?:[A-Z][a-z0-9]*)+)(?![A-Za-z0-9])/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Tokens that look like internal acronyms or codenames, in order of first appearance
+ */
+export function scanCandidateTerms(text: string): string[] {
+  return [...new Set([...text.matchAll(CANDIDATE_PATTERN)].map(match => match[0]))];
+}
+
+/**
+ * Internal abbreviations and codenames (ASL, GH, T5, ...) with their
+ * definitions, loaded from ABBREVIATIONS_JSON_PATH. Entries are global or
+ * scoped to a team or jurisdiction; a scoped definition wins over the global
+ * one when the context matches. Used to expand the terms a feature description
+ * mentions so the model does not have to guess them.
+ */
+export class Glossary {
+  private glossaryPath: string;
+  private entries: GlossaryEntry[] = [];
+
+  constructor(glossaryPath?: string) {
+    this.glossaryPath = path.resolve(glossaryPath || process.env.ABBREVIATIONS_JSON_PATH || './src/data/abbreviations.json');
+    this.load();
+  }
+
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.glossaryPath)) {
+        this.entries = [];
+        return;
+      }
+      const data = JSON.parse(fs.readFileSync(this.glossaryPath, 'utf8'));
+      if (Array.isArray(data.entries)) {
+        this.entries = data.entries;
+      } else {
+        // Plain { "TERM": "definition" } map: every entry is global
+        this.entries = Object.entries<string>(data).map(([term, definition]) => ({
+          id: this.generateId(),
+          term,
+          definition,
+          scope: 'global'
+        }));
+      }
+    } catch (error) {
+      console.warn('Could not load abbreviations:', error);
+    }
+  }
+
+  private persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.glossaryPath), { recursive: true });
+      fs.writeFileSync(this.glossaryPath, JSON.stringify({
+        entries: this.entries,
+        lastUpdated: new Date().toISOString()
+      }, null, 2));
+    } catch (error) {
+      console.error('Error writing glossary:', error);
+      throw new Error('Failed to save glossary');
+    }
+  }
+
+  private generateId(): string {
+    return `glossary_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public list(filter: { scope?: GlossaryScope; scope_value?: string; term?: string } = {}): GlossaryEntry[] {
+    return this.entries.filter(entry =>
+      (!filter.scope || entry.scope === filter.scope)
+      && (!filter.scope_value || entry.scope_value?.toLowerCase() === filter.scope_value.toLowerCase())
+      && (!filter.term || entry.term === filter.term)
+    );
+  }
+
+  public get(id: string): GlossaryEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  private validate(request: GlossaryEntryRequest, excludeId?: string): Required<Pick<GlossaryEntry, 'term' | 'definition' | 'scope'>> & { scope_value?: string } {
+    const term = request.term?.trim();
+    const definition = request.definition?.trim();
+    const scope = request.scope || 'global';
+    const scopeValue = scope === 'global' ? undefined : request.scope_value?.trim();
+
+    if (!term || !definition) {
+      throw new GlossaryError('Missing required fields: term and definition are required');
+    }
+    if (!SCOPES.includes(scope)) {
+      throw new GlossaryError(`Invalid scope "${scope}". Expected one of: ${SCOPES.join(', ')}`);
+    }
+    if (scope !== 'global' && !scopeValue) {
+      throw new GlossaryError(`scope_value is required for ${scope} entries`);
+    }
+
+    const duplicate = this.entries.find(entry =>
+      entry.id !== excludeId
+      && entry.term === term
+      && entry.scope === scope
+      && (entry.scope_value || '').toLowerCase() === (scopeValue || '').toLowerCase()
+    );
+    if (duplicate) {
+      throw new GlossaryError(`"${term}" is already defined for this scope (${duplicate.id})`, 409);
+    }
+
+    return { term, definition, scope, scope_value: scopeValue };
+  }
+
+  public create(request: GlossaryEntryRequest): GlossaryEntry {
+    const entry: GlossaryEntry = {
+      id: this.generateId(),
+      ...this.validate(request),
+      created_at: new Date().toISOString()
+    };
+    this.entries.push(entry);
+    this.persist();
+    return entry;
+  }
+
+  public update(id: string, request: Partial<GlossaryEntryRequest>): GlossaryEntry | undefined {
+    const index = this.entries.findIndex(entry => entry.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    const current = this.entries[index];
+    const updated: GlossaryEntry = {
+      ...current,
+      ...this.validate({
+        term: request.term ?? current.term,
+        definition: request.definition ?? current.definition,
+        scope: request.scope ?? current.scope,
+        scope_value: request.scope_value ?? current.scope_value
+      }, id),
+      updated_at: new Date().toISOString()
+    };
+    if (updated.scope === 'global') {
+      delete updated.scope_value;
+    }
+    this.entries[index] = updated;
+    this.persist();
+    return updated;
+  }
+
+  public delete(id: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    if (this.entries.length === before) {
+      return false;
+    }
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Definition that applies to a term in the given context: team, then
+   * jurisdiction, then global
+   */
+  public resolve(term: string, context: GlossaryContext = {}): GlossaryEntry | undefined {
+    const matches = this.entries.filter(entry => entry.term === term);
+    const scoped = (scope: GlossaryScope, value?: string) => value
+      ? matches.find(entry => entry.scope === scope && entry.scope_value?.toLowerCase() === value.toLowerCase())
+      : undefined;
+    return scoped('team', context.team)
+      || scoped('jurisdiction', context.jurisdiction)
+      || matches.find(entry => entry.scope === 'global');
+  }
+
+  /**
+   * Terms mentioned in the text, in order of first appearance. Matching is
+   * case-sensitive on whole tokens, so "PF" does not match inside "PFX".
+   */
+  public findTerms(text: string, context: GlossaryContext = {}): GlossaryExpansion[] {
+    const found: Array<GlossaryExpansion & { position: number }> = [];
+    for (const term of new Set(this.entries.map(entry => entry.term))) {
+      const match = new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(term)}(?![A-Za-z0-9])`).exec(text);
+      const entry = match ? this.resolve(term, context) : undefined;
+      if (match && entry) {
+        found.push({ term, definition: entry.definition, position: match.index });
+      }
+    }
+    return found
+      .sort((a, b) => a.position - b.position)
+      .map(({ term, definition }) => ({ term, definition }));
+  }
+
+  /**
+   * Acronyms and codenames in the text that have no definition in the context
+   * @param knownTerms Terms to ignore, e.g. acronyms that appear in law titles
+   */
+  public findUndefinedTerms(text: string, context: GlossaryContext = {}, knownTerms: string[] = []): string[] {
+    const known = new Set(knownTerms);
+    return scanCandidateTerms(text).filter(term =>
+      !COMMON_ACRONYMS.has(term) && !known.has(term) && !this.resolve(term, context)
+    );
+  }
+
+  /**
+   * Prompt section defining the given terms; empty when there are none
+   */
+  public static formatForPrompt(expansions: GlossaryExpansion[]): string {
+    if (expansions.length === 0) {
+      return '';
+    }
+    return `\n\nGlossary of internal terms used above:\n${expansions.map(e => `- ${e.term}: ${e.definition}`).join('\n')}`;
+  }
+}
@@ -0,0 +1,135 @@
+import { Law, ScreeningMode } from '../types';
+import { getNumberEnv } from '../utils/envUtils';
+
+export interface PrefilterOptions {
+  // Never shortlist more than this many provisions
+  maxCandidates: number;
+  // Keep provisions scoring at least this fraction of the best match (prefilter mode)
+  minRelativeScore: number;
+  // Stricter cut-off used when the shortlist is the final answer (offline mode)
+  offlineMinRelativeScore: number;
+}
+
+export interface LawMatch {
+  law: Law;
+  score: number;
+  // Stemmed query terms found in the law
+  terms: string[];
+}
+
+/**
+ * Prefilter thresholds from SCREENING_PREFILTER_MAX_CANDIDATES,
+ * SCREENING_PREFILTER_MIN_RELATIVE_SCORE and SCREENING_OFFLINE_MIN_RELATIVE_SCORE
+ */
+export function getPrefilterOptions(overrides: Partial<PrefilterOptions> = {}): PrefilterOptions {
+  return {
+    maxCandidates: getNumberEnv('SCREENING_PREFILTER_MAX_CANDIDATES', 25),
+    minRelativeScore: getNumberEnv('SCREENING_PREFILTER_MIN_RELATIVE_SCORE', 0.15),
+    offlineMinRelativeScore: getNumberEnv('SCREENING_OFFLINE_MIN_RELATIVE_SCORE', 0.5),
+    ...overrides
+  };
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'if', 'in',
+  'into', 'is', 'it', 'its', 'may', 'must', 'not', 'of', 'on', 'or', 'our', 'should', 'such', 'that',
+  'the', 'their', 'them', 'they', 'this', 'to', 'was', 'were', 'when', 'which', 'will', 'with', 'within'
+]);
+
+// Light suffix stripping so "minors"/"minor" and "reporting"/"report" share a term
+const stem = (token: string): string => {
+  if (token.length > 5 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedLaw {
+  law: Law;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * BM25 index over law titles, descriptions and regions, used to shortlist
+ * provisions for a feature without a model call. Titles are counted twice so
+ * that a term in the law's name outweighs a passing mention in a provision.
+ */
+export class LawIndex {
+  private documents = new Map<string, IndexedLaw>();
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(laws: Law[]) {
+    for (const law of laws) {
+      const tokens = tokenize(`${law.law_title} ${law.law_title} ${law.law_description} ${law['country-region']}`);
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+      termFrequencies.forEach((_, token) => this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1));
+      this.documents.set(law.index, { law, termFrequencies, length: tokens.length });
+    }
+    const totalLength = [...this.documents.values()].reduce((sum, doc) => sum + doc.length, 0);
+    this.averageLength = this.documents.size > 0 ? totalLength / this.documents.size : 0;
+  }
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  private idf(token: string): number {
+    const frequency = this.documentFrequencies.get(token) || 0;
+    return Math.log(1 + (this.documents.size - frequency + 0.5) / (frequency + 0.5));
+  }
+
+  /**
+   * Score laws against a query, best match first. Laws with no shared term are
+   * left out; `candidates` restricts the search to those laws (matched by index).
+   */
+  public search(query: string, candidates?: Law[]): LawMatch[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    const documents = candidates
+      ? candidates.map(law => this.documents.get(law.index)).filter((doc): doc is IndexedLaw => doc !== undefined)
+      : [...this.documents.values()];
+
+    return documents
+      .map(doc => {
+        const terms = queryTokens.filter(token => doc.termFrequencies.has(token));
+        const normalization = K1 * (1 - B + B * doc.length / (this.averageLength || 1));
+        const score = terms.reduce((sum, token) => {
+          const frequency = doc.termFrequencies.get(token)!;
+          return sum + this.idf(token) * (frequency * (K1 + 1)) / (frequency + normalization);
+        }, 0);
+        return { law: doc.law, score, terms };
+      })
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Candidate provisions for a feature: matches scoring at least the relative
+   * threshold for the mode, capped at maxCandidates
+   */
+  public shortlist(query: string, candidates: Law[] | undefined, options: PrefilterOptions, mode: ScreeningMode = 'prefilter'): LawMatch[] {
+    const matches = this.search(query, candidates);
+    if (matches.length === 0) {
+      return [];
+    }
+    const ratio = mode === 'offline' ? options.offlineMinRelativeScore : options.minRelativeScore;
+    const cutoff = matches[0].score * ratio;
+    return matches
+      .filter(match => match.score >= cutoff)
+      .slice(0, Math.max(1, options.maxCandidates));
+  }
+}
@@ -0,0 +1,416 @@
+import { GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+import {
+  JsonSchema,
+  LLMMessage,
+  LLMProviderConfig,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMStage
+} from '../types';
+import { CassetteMode, CassetteProvider } from './cassetteProvider';
+import { ResilientProvider } from './resilientProvider';
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openrouter: 'google/gemini-2.0-flash-001',
+  openai: 'gpt-4o-mini',
+  gemini: 'gemini-2.0-flash'
+};
+
+const DEFAULT_BASE_URLS: Record<Exclude<LLMProviderName, 'gemini'>, string> = {
+  openrouter: 'https://openrouter.ai/api/v1',
+  openai: 'https://api.openai.com/v1'
+};
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openrouter', 'openai', 'gemini'];
+
+/**
+ * Error raised by providers for failed model calls. `retryable` marks
+ * transient failures (rate limits, 5xx, network errors) worth retrying.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    public readonly retryable: boolean = false,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  return undefined;
+}
+
+/**
+ * A chat-completion backend used by the compliance pipeline.
+ * Implementations translate the provider-neutral request into their own wire format.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat-completions protocol,
+ * including self-hosted servers (vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name: string = 'openai';
+  public readonly model: string;
+  protected readonly apiKey?: string;
+  protected readonly baseUrl: string;
+  protected readonly structuredOutput: boolean;
+
+  constructor(config: LLMProviderConfig) {
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URLS.openai).replace(/\/+$/, '');
+    this.structuredOutput = config.structuredOutput !== false;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.max_tokens,
+          stream: false,
+          ...(request.response_schema && this.structuredOutput ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: {
+                name: request.response_schema.name,
+                schema: toStrictSchema(request.response_schema.schema),
+                strict: true
+              }
+            }
+          } : {})
+        })
+      });
+    } catch (error) {
+      // Connection refused, DNS failure, reset socket...
+      throw new LLMProviderError(
+        `${this.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        undefined,
+        true
+      );
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({})) as any;
+      throw new LLMProviderError(
+        `${this.name} API error: ${response.status} ${response.statusText} - ${errorData.error?.message || 'Unknown error'}`,
+        this.name,
+        response.status,
+        isRetryableStatus(response.status),
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const completion = await response.json() as any;
+    return {
+      content: completion.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: completion.model || this.model,
+      usage: completion.usage ? {
+        prompt_tokens: completion.usage.prompt_tokens || 0,
+        completion_tokens: completion.usage.completion_tokens || 0,
+        total_tokens: completion.usage.total_tokens || 0
+      } : undefined,
+      raw: completion
+    };
+  }
+}
+
+/**
+ * OpenRouter speaks the OpenAI protocol but expects attribution headers
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  public readonly name: string = 'openrouter';
+
+  constructor(config: LLMProviderConfig) {
+    super({ ...config, baseUrl: config.baseUrl || DEFAULT_BASE_URLS.openrouter });
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return {
+      ...super.buildHeaders(),
+      'HTTP-Referer': process.env.OPENROUTER_REFERER || 'http://localhost:8000', // Site URL for rankings
+      'X-Title': 'Regulium-Z Compliance Checker' // Site title for rankings
+    };
+  }
+}
+
+/**
+ * Strict structured output requires every object to list all of its properties
+ * as required and to forbid any others. Optional properties are made required,
+ * so the model always returns them (evidence as an empty list, for instance);
+ * answers still validate against the original schema.
+ */
+export function toStrictSchema(schema: JsonSchema): JsonSchema {
+  const converted: JsonSchema = { ...schema };
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [key, toStrictSchema(child)])
+    );
+    converted.required = Object.keys(schema.properties);
+    converted.additionalProperties = false;
+  }
+  if (schema.items) {
+    converted.items = toStrictSchema(schema.items);
+  }
+  return converted;
+}
+
+/**
+ * Why a schema would be rejected with strict: true; empty when it is accepted
+ */
+export function strictSchemaErrors(schema: JsonSchema, at: string = '$'): string[] {
+  const errors: string[] = [];
+  if (schema.properties) {
+    const required = new Set(schema.required || []);
+    Object.keys(schema.properties).filter(key => !required.has(key))
+      .forEach(key => errors.push(`${at}.${key} is not required`));
+    if (schema.additionalProperties !== false) {
+      errors.push(`${at} must set additionalProperties to false`);
+    }
+    Object.entries(schema.properties).forEach(([key, child]) => errors.push(...strictSchemaErrors(child, `${at}.${key}`)));
+  }
+  if (schema.items) {
+    errors.push(...strictSchemaErrors(schema.items, `${at}[]`));
+  }
+  return errors;
+}
+
+/**
+ * Convert a JSON schema to the OpenAPI subset accepted by Gemini's responseSchema
+ */
+export function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  const converted: any = {};
+  if (schema.type) {
+    converted.type = schema.type;
+  }
+  if (schema.description) {
+    converted.description = schema.description;
+  }
+  if (schema.enum) {
+    converted.enum = schema.enum.map(String);
+    converted.format = 'enum';
+  }
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [key, toGeminiSchema(child)])
+    );
+  }
+  if (schema.required) {
+    converted.required = schema.required;
+  }
+  if (schema.items) {
+    converted.items = toGeminiSchema(schema.items);
+  }
+  return converted as ResponseSchema;
+}
+
+/**
+ * Provider backed by the Google Gemini SDK
+ */
+export class GeminiProvider implements LLMProvider {
+  public readonly name = 'gemini';
+  public readonly model: string;
+  private client: GoogleGenerativeAI;
+  private structuredOutput: boolean;
+
+  constructor(config: LLMProviderConfig) {
+    this.model = config.model;
+    this.client = new GoogleGenerativeAI(config.apiKey || '');
+    this.structuredOutput = config.structuredOutput !== false;
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    const systemInstruction = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const generativeModel = this.client.getGenerativeModel({
+      model: this.model,
+      systemInstruction: systemInstruction || undefined,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.max_tokens,
+        ...(request.response_schema && this.structuredOutput ? {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(request.response_schema.schema)
+        } : {})
+      }
+    });
+
+    let result;
+    try {
+      result = await generativeModel.generateContent({
+        contents: request.messages
+          .filter(message => message.role !== 'system')
+          .map((message: LLMMessage) => ({
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: message.content }]
+          }))
+      });
+    } catch (error) {
+      const status = (error as any)?.status as number | undefined;
+      throw new LLMProviderError(
+        `${this.name} API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        status,
+        status === undefined || isRetryableStatus(status)
+      );
+    }
+
+    const usage = result.response.usageMetadata;
+    return {
+      content: result.response.text(),
+      provider: this.name,
+      model: this.model,
+      usage: usage ? {
+        prompt_tokens: usage.promptTokenCount || 0,
+        completion_tokens: usage.candidatesTokenCount || 0,
+        total_tokens: usage.totalTokenCount || 0
+      } : undefined,
+      raw: result.response
+    };
+  }
+}
+
+function parseProviderName(value: string | undefined, fallback: LLMProviderName): LLMProviderName {
+  if (!value) {
+    return fallback;
+  }
+  const normalized = value.trim().toLowerCase() as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(normalized)) {
+    throw new Error(`Unknown LLM provider "${value}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  return normalized;
+}
+
+/**
+ * Resolve the provider configuration for a pipeline stage.
+ * Stage-specific variables (SCREENING_PROVIDER, ASSESSMENT_MODEL, ...) take
+ * precedence over the shared LLM_PROVIDER / OPENAI_* settings.
+ * @param modelSpec "provider:model" or "model", overriding the stage's provider and model
+ */
+export function getProviderConfig(stage: LLMStage, modelSpec?: string): LLMProviderConfig {
+  const prefix = stage.toUpperCase();
+  // OpenRouter model ids can contain colons too, so only a known provider name counts as a prefix
+  const prefixed = modelSpec?.match(/^([a-z]+):(.+)$/i);
+  const specProvider = prefixed && PROVIDER_NAMES.includes(prefixed[1].toLowerCase() as LLMProviderName) ? prefixed[1] : undefined;
+  const specModel = specProvider ? prefixed![2] : modelSpec;
+  const provider = parseProviderName(
+    specProvider || process.env[`${prefix}_PROVIDER`],
+    parseProviderName(process.env.LLM_PROVIDER, 'openrouter')
+  );
+
+  const stageModel = specModel?.trim() || process.env[`${prefix}_MODEL`];
+  // Some OpenAI-compatible servers reject response_format; LLM_STRUCTURED_OUTPUT=false turns it off
+  const structuredOutput = process.env.LLM_STRUCTURED_OUTPUT !== 'false';
+
+  switch (provider) {
+    case 'gemini':
+      return {
+        provider,
+        model: stageModel || process.env.GEMINI_MODEL || DEFAULT_MODELS.gemini,
+        apiKey: process.env.GEMINI_API_KEY,
+        structuredOutput
+      };
+    case 'openrouter':
+      return {
+        provider,
+        model: stageModel || process.env.OPENAI_MODEL || DEFAULT_MODELS.openrouter,
+        apiKey: process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENROUTER_API_BASE || DEFAULT_BASE_URLS.openrouter,
+        structuredOutput
+      };
+    case 'openai':
+    default:
+      return {
+        provider,
+        model: stageModel || process.env.OPENAI_MODEL || DEFAULT_MODELS.openai,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_API_BASE || DEFAULT_BASE_URLS.openai,
+        structuredOutput
+      };
+  }
+}
+
+export function createProviderFromConfig(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'openrouter':
+      return new OpenRouterProvider(config);
+    case 'openai':
+    default:
+      return new OpenAICompatibleProvider(config);
+  }
+}
+
+/**
+ * Build the provider for a pipeline stage. When LLM_CASSETTE_MODE is set the
+ * provider is wrapped by the record/replay stand-in (see cassetteProvider.ts).
+ * Real providers always go through the retry / rate-limit / circuit-breaker layer.
+ */
+export function createLLMProvider(stage: LLMStage, modelSpec?: string): LLMProvider {
+  const cassetteMode = process.env.LLM_CASSETTE_MODE as CassetteMode | undefined;
+  const cassettePath = process.env.LLM_CASSETTE_PATH || './cassettes/llm-cassette.json';
+
+  if (cassetteMode && cassetteMode !== 'replay' && cassetteMode !== 'record') {
+    throw new Error(`Unknown LLM_CASSETTE_MODE "${cassetteMode}". Expected replay or record`);
+  }
+
+  if (cassetteMode === 'replay') {
+    return new CassetteProvider('replay', stage, cassettePath, undefined, getProviderConfig(stage, modelSpec).model);
+  }
+
+  const provider = new ResilientProvider(createProviderFromConfig(getProviderConfig(stage, modelSpec)));
+  if (cassetteMode === 'record') {
+    return new CassetteProvider('record', stage, cassettePath, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,56 @@
+import { InjectionFinding, InjectionSource } from '../types';
+
+// Tags the prompt templates put around user-supplied text
+export const FENCE_TAGS = ['feature_name', 'feature_description', 'corrections'];
+
+const FENCE_TAG = new RegExp(`<(\\s*/?\\s*(?:${FENCE_TAGS.join('|')})\\b)`, 'gi');
+
+const PATTERNS: Array<{ rule: string; pattern: RegExp }> = [
+  {
+    rule: 'instruction_override',
+    pattern: /\b(?:ignore|disregard|forget|override|bypass)\b(?:[^.\n]{0,40}?\b(?:instructions|prompts?)\b|[^.\n]{0,20}?\b(?:previous|prior|above|earlier|preceding|your|system)\b[^.\n]{0,20}?\b(?:instructions?|rules|guidelines|directions|context)\b)/i
+  },
+  {
+    rule: 'role_change',
+    pattern: /\b(?:you are now|from now on,? you|act as (?:an?|the)|pretend (?:to be|you are)|new instructions?|developer mode|jailbreak)\b/i
+  },
+  {
+    rule: 'role_marker',
+    pattern: /(?:^|\n)\s*(?:system|assistant|developer)\s*:|<\|im_(?:start|end)\|>|\[\/?INST\]|<<\/?SYS>>|#{2,}\s*(?:instructions?|system)\b/i
+  },
+  {
+    rule: 'verdict_directive',
+    pattern: /\b(?:answer|respond|reply|return|output|classify|rate)\b[^.\n]{0,30}?["']?\b(?:compliant|non-compliant|requires_review)\b|\bcompliance_status\b|\b(?:mark|label|set)\s+(?:this|it|the feature|this feature)\b[^.\n]{0,20}?\b(?:compliant|non-compliant)\b/i
+  },
+  {
+    rule: 'prompt_leak',
+    pattern: /\b(?:system prompt|(?:reveal|print|repeat) (?:your|the) (?:instructions|prompt))\b/i
+  },
+  {
+    rule: 'fence_escape',
+    pattern: FENCE_TAG
+  }
+];
+
+/**
+ * Break up anything in user text that looks like one of the prompt's fence
+ * tags, so the text cannot close its fence and continue as instructions
+ */
+export function escapeFences(text: string): string {
+  return text.replace(FENCE_TAG, '‹$1');
+}
+
+/**
+ * Instruction-like passages in user-supplied text. Matches are heuristics:
+ * they send the result to a reviewer rather than reject the input.
+ */
+export function detectInjection(text: string, source: InjectionSource): InjectionFinding[] {
+  const findings: InjectionFinding[] = [];
+  for (const { rule, pattern } of PATTERNS) {
+    const match = new RegExp(pattern.source, pattern.flags.replace('g', '')).exec(text);
+    if (match) {
+      findings.push({ source, rule, excerpt: match[0].trim().slice(0, 80) });
+    }
+  }
+  return findings;
+}
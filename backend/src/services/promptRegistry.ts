@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CreatePromptVersionRequest,
+  PromptTemplate,
+  PromptTemplateName,
+  PromptTemplateVersion
+} from '../types';
+import { DEFAULT_PROMPT_TEMPLATES } from './defaultPrompts';
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  // "<name>@<version>", recorded on results
+  version: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+// Versions created through the API are numbered from here; lower numbers belong to built-in versions
+export const FIRST_USER_VERSION = 101;
+
+/**
+ * Named, versioned prompt templates. Built-in versions live in
+ * defaultPrompts.ts; versions created through the API and the active
+ * version per template are persisted to PROMPT_REGISTRY_PATH.
+ */
+export class PromptRegistry {
+  private registryPath: string;
+  private templates = new Map<PromptTemplateName, PromptTemplate>();
+
+  constructor(registryPath?: string) {
+    this.registryPath = path.resolve(registryPath || process.env.PROMPT_REGISTRY_PATH || './src/data/prompts.json');
+    for (const template of DEFAULT_PROMPT_TEMPLATES) {
+      this.templates.set(template.name, { ...template, versions: [...template.versions] });
+    }
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.registryPath)) {
+        return;
+      }
+      const data = JSON.parse(fs.readFileSync(this.registryPath, 'utf8'));
+      let migrated = false;
+      for (const [name, stored] of Object.entries<any>(data.templates || {})) {
+        const template = this.templates.get(name as PromptTemplateName);
+        if (!template) {
+          console.warn(`Ignoring unknown prompt template "${name}" in ${this.registryPath}`);
+          continue;
+        }
+        const storedVersions = (stored.versions || []) as PromptTemplateVersion[];
+        const userVersions = storedVersions.filter(v => v.version >= FIRST_USER_VERSION);
+        for (const version of userVersions) {
+          if (template.versions.some(v => v.version === version.version)) {
+            console.warn(`Ignoring stored version ${version.version} of "${name}": the number is used twice`);
+          } else {
+            template.versions.push(version);
+          }
+        }
+        // Files written before user versions had their own range may reuse built-in numbers
+        const renumbered = new Map<number, number>();
+        for (const version of storedVersions.filter(v => v.version < FIRST_USER_VERSION).sort((a, b) => a.version - b.version)) {
+          const number = this.nextUserVersion(template);
+          console.warn(`Renumbered stored version ${version.version} of "${name}" to ${number}: numbers below ${FIRST_USER_VERSION} are reserved for built-in versions`);
+          renumbered.set(version.version, number);
+          migrated = true;
+          template.versions.push({ ...version, version: number });
+        }
+        const activeVersion = renumbered.get(stored.active_version) ?? stored.active_version;
+        const active = template.versions.find(v => v.version === activeVersion);
+        if (active?.retired) {
+          console.warn(`Not activating retired version ${active.version} of "${name}" (${active.retired}); using version ${template.active_version}`);
+        } else if (active) {
+          template.active_version = active.version;
+        }
+      }
+      if (migrated) {
+        this.persist();
+      }
+    } catch (error) {
+      console.warn('Could not load prompt registry, using built-in prompts:', error);
+    }
+  }
+
+  private persist(): void {
+    const builtIn = new Map(DEFAULT_PROMPT_TEMPLATES.map(t => [t.name, new Set(t.versions.map(v => v.version))]));
+    const templates = Object.fromEntries([...this.templates.values()].map(template => [template.name, {
+      active_version: template.active_version,
+      versions: template.versions.filter(v => !builtIn.get(template.name)!.has(v.version))
+    }]));
+
+    fs.mkdirSync(path.dirname(this.registryPath), { recursive: true });
+    fs.writeFileSync(this.registryPath, JSON.stringify({
+      templates,
+      lastUpdated: new Date().toISOString()
+    }, null, 2));
+  }
+
+  private nextUserVersion(template: PromptTemplate): number {
+    return Math.max(FIRST_USER_VERSION - 1, ...template.versions.map(v => v.version)) + 1;
+  }
+
+  public list(): PromptTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  public get(name: string): PromptTemplate | undefined {
+    return this.templates.get(name as PromptTemplateName);
+  }
+
+  private require(name: string): PromptTemplate {
+    const template = this.get(name);
+    if (!template) {
+      throw new PromptTemplateError(`Unknown prompt template "${name}"`, 404);
+    }
+    return template;
+  }
+
+  public getActiveVersion(name: PromptTemplateName): PromptTemplateVersion {
+    const template = this.require(name);
+    return template.versions.find(v => v.version === template.active_version)!;
+  }
+
+  /**
+   * Identifier of the active version, e.g. "assessment@2"
+   */
+  public getVersionId(name: PromptTemplateName): string {
+    return `${name}@${this.require(name).active_version}`;
+  }
+
+  public createVersion(name: string, request: CreatePromptVersionRequest): PromptTemplateVersion {
+    const template = this.require(name);
+    if (!request.system || !request.system.trim() || !request.user || !request.user.trim()) {
+      throw new PromptTemplateError('Both system and user templates are required');
+    }
+
+    const unknown = [request.system, request.user]
+      .flatMap(text => [...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]))
+      .filter(variable => !template.variables.includes(variable));
+    if (unknown.length > 0) {
+      throw new PromptTemplateError(
+        `Unknown variable(s) ${[...new Set(unknown)].map(v => `{{${v}}}`).join(', ')}. Available: ${template.variables.join(', ')}`
+      );
+    }
+
+    const version: PromptTemplateVersion = {
+      version: this.nextUserVersion(template),
+      system: request.system,
+      user: request.user,
+      description: request.description,
+      created_at: new Date().toISOString()
+    };
+    template.versions.push(version);
+    if (request.activate) {
+      template.active_version = version.version;
+    }
+    this.persist();
+    return version;
+  }
+
+  public activate(name: string, version: number): PromptTemplate {
+    const template = this.require(name);
+    const target = template.versions.find(v => v.version === version);
+    if (!target) {
+      throw new PromptTemplateError(`Prompt template "${name}" has no version ${version}`, 404);
+    }
+    if (target.retired) {
+      throw new PromptTemplateError(`Version ${version} of "${name}" is retired: ${target.retired}`, 409);
+    }
+    template.active_version = version;
+    this.persist();
+    return template;
+  }
+
+  /**
+   * Render the active version of a template. Variables missing from `variables` render empty.
+   */
+  public render(name: PromptTemplateName, variables: { [key: string]: string | number }): RenderedPrompt {
+    const active = this.getActiveVersion(name);
+    const fill = (text: string) => text.replace(VARIABLE_PATTERN, (_, variable: string) =>
+      variables[variable] !== undefined ? String(variables[variable]) : '');
+    return {
+      system: fill(active.system),
+      user: fill(active.user),
+      version: this.getVersionId(name)
+    };
+  }
+}
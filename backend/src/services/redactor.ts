@@ -0,0 +1,191 @@
+import { LLMRequest, LLMStage, RedactedValue, RedactionReport, RedactionType } from '../types';
+
+export interface RedactionOptions {
+  enabled: boolean;
+  // People's names to mask, matched as whole words
+  names: string[];
+  // Host suffixes treated as internal: single labels ("corp") or domains ("acme.net")
+  internalDomains: string[];
+}
+
+const listEnv = (name: string, fallback: string[]) => {
+  const value = process.env[name];
+  return value === undefined ? fallback : value.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+/**
+ * Redaction settings from REDACTION_ENABLED, REDACTION_NAMES and
+ * REDACTION_INTERNAL_DOMAINS (both comma-separated)
+ */
+export function getRedactionOptions(overrides: Partial<RedactionOptions> = {}): RedactionOptions {
+  return {
+    enabled: process.env.REDACTION_ENABLED !== 'false',
+    names: listEnv('REDACTION_NAMES', []),
+    internalDomains: listEnv('REDACTION_INTERNAL_DOMAINS', ['internal', 'corp', 'local', 'lan', 'intranet']),
+    ...overrides
+  };
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const API_KEY_PATTERNS = [
+  /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{16,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}/g,
+  /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{20,}=*/g,
+  // Only the value of key=value or key: value pairs
+  /(?<=\b(?:api[_-]?key|access[_-]?token|auth[_-]?token|secret|password|passwd)\s*[:=]\s*["']?)[^\s"',;]{8,}/gi
+];
+
+const EMAIL = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+
+const PRIVATE_IP = /\b(?:10(?:\.\d{1,3}){3}|192\.168(?:\.\d{1,3}){2}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2})\b/g;
+
+// Grouped digits, or an unbroken run after a country code; 10-15 digits in all
+const PHONE = /(?<![\w.])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}(?![\w.])|\+\d{10,15}\b/g;
+
+const PLACEHOLDER_PREFIX: Record<RedactionType, string> = {
+  api_key: 'API_KEY',
+  email: 'EMAIL',
+  hostname: 'HOST',
+  phone: 'PHONE',
+  name: 'NAME'
+};
+
+// Enough of a value for a reviewer to recognise it without repeating it
+const mask = (value: string) => value.length > 4 ? `${value.slice(0, 2)}…` : '…';
+
+/**
+ * Apply a redaction's `restore` to every string in a parsed answer. Answers
+ * are parsed before restoring, so originals with quotes or backslashes cannot
+ * break the JSON.
+ */
+export function restoreStrings<T>(value: T, restore: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return restore(value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => restoreStrings(item, restore)) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restoreStrings(item, restore)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Masks personal data and secrets in prompts before they leave the server
+ * and puts the originals back into the model's answers. Placeholders such
+ * as [EMAIL_1] are numbered per model call, so the same prompt always
+ * redacts the same way. One redactor is used per compliance run and
+ * collects the run's redaction report.
+ */
+export class Redactor {
+  private options: RedactionOptions;
+  private patterns: Array<{ type: RedactionType; pattern: RegExp; accept?: (match: string) => boolean }>;
+  private values = new Map<string, RedactedValue>();
+  private byStage: Partial<Record<LLMStage, number>> = {};
+  private calls = 0;
+
+  constructor(options: Partial<RedactionOptions> = {}) {
+    this.options = getRedactionOptions(options);
+    const singleLabel = this.options.internalDomains.filter(domain => !domain.includes('.')).map(escapeRegExp);
+    const domains = this.options.internalDomains.filter(domain => domain.includes('.')).map(escapeRegExp);
+    const hostAlternatives = [
+      ...(singleLabel.length > 0 ? [`(?:[a-z0-9-]+\\.)+(?:${singleLabel.join('|')})`] : []),
+      ...(domains.length > 0 ? [`(?:[a-z0-9-]+\\.)*(?:${domains.join('|')})`] : [])
+    ];
+    const names = [...this.options.names].sort((a, b) => b.length - a.length).map(name => escapeRegExp(name).replace(/\s+/g, '\\s+'));
+
+    // Secrets go first so a key is never half-taken by a later pattern
+    this.patterns = [
+      ...API_KEY_PATTERNS.map(pattern => ({ type: 'api_key' as const, pattern })),
+      { type: 'email', pattern: EMAIL },
+      ...(hostAlternatives.length > 0
+        ? [{ type: 'hostname' as const, pattern: new RegExp(`(?<![\\w.-])(?:${hostAlternatives.join('|')})(?![\\w-]|\\.[a-z0-9])`, 'gi') }]
+        : []),
+      { type: 'hostname', pattern: PRIVATE_IP },
+      { type: 'phone', pattern: PHONE, accept: match => { const digits = match.replace(/\D/g, '').length; return digits >= 10 && digits <= 15; } },
+      ...(names.length > 0
+        ? [{ type: 'name' as const, pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.join('|')})(?![\\p{L}\\p{N}])`, 'giu') }]
+        : [])
+    ];
+  }
+
+  public isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Redact every message of a request. `restore` puts the originals back
+   * into text the model returns for it; use restoreStrings for JSON answers.
+   */
+  public redactRequest(request: LLMRequest, stage: LLMStage): { request: LLMRequest; restore: (text: string) => string } {
+    if (!this.options.enabled) {
+      return { request, restore: text => text };
+    }
+
+    const placeholders = new Map<string, string>();
+    // Each original as first written, by placeholder
+    const originals = new Map<string, string>();
+    const counters: Partial<Record<RedactionType, number>> = {};
+    let occurrences = 0;
+    const redact = (text: string) => this.patterns.reduce((current, { type, pattern, accept }) =>
+      current.replace(pattern, match => {
+        if (accept && !accept(match)) {
+          return match;
+        }
+        // Case only matters in secrets
+        const key = `${type}:${type === 'api_key' ? match : match.toLowerCase()}`;
+        let placeholder = placeholders.get(key);
+        if (!placeholder) {
+          counters[type] = (counters[type] || 0) + 1;
+          placeholder = `[${PLACEHOLDER_PREFIX[type]}_${counters[type]}]`;
+          placeholders.set(key, placeholder);
+          originals.set(placeholder, match);
+        }
+        occurrences++;
+        this.count(type, match);
+        return placeholder;
+      }), text);
+
+    const messages = request.messages.map(message => ({ ...message, content: redact(message.content) }));
+    if (occurrences > 0) {
+      this.calls++;
+      this.byStage[stage] = (this.byStage[stage] || 0) + occurrences;
+    }
+
+    const restore = (text: string) => originals.size === 0
+      ? text
+      : text.replace(/\[(?:API_KEY|EMAIL|HOST|PHONE|NAME)_\d+\]/g, placeholder => originals.get(placeholder) ?? placeholder);
+
+    return { request: { ...request, messages }, restore };
+  }
+
+  public getReport(): RedactionReport {
+    const values = [...this.values.values()];
+    const byType: Partial<Record<RedactionType, number>> = {};
+    values.forEach(value => byType[value.type] = (byType[value.type] || 0) + value.occurrences);
+    return {
+      enabled: this.options.enabled,
+      total: values.reduce((sum, value) => sum + value.occurrences, 0),
+      calls: this.calls,
+      by_type: byType,
+      by_stage: { ...this.byStage },
+      values: values.map(value => ({ ...value }))
+    };
+  }
+
+  private count(type: RedactionType, value: string): void {
+    const key = `${type}:${type === 'api_key' ? value : value.toLowerCase()}`;
+    const existing = this.values.get(key);
+    if (existing) {
+      existing.occurrences++;
+    } else {
+      this.values.set(key, { type, masked: mask(value), occurrences: 1 });
+    }
+  }
+}
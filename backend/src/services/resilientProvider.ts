@@ -0,0 +1,242 @@
+import { LLMRequest, LLMResponse } from '../types';
+import { LLMProvider, LLMProviderError } from './llmProvider';
+import { getNumberEnv } from '../utils/envUtils';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerPolicy {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface ResilienceOptions {
+  retry?: Partial<RetryPolicy>;
+  limiter?: RateLimiter | null;
+  breaker?: CircuitBreaker;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly provider: string, public readonly retryAfterMs: number) {
+    super(`Circuit breaker open for ${provider}; retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Request budget shared by every caller of the same provider. Implemented as a
+ * token bucket refilled continuously at `requestsPerMinute`.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly requestsPerMinute: number,
+    private readonly now: () => number = Date.now,
+    private readonly sleep: (ms: number) => Promise<void> = defaultSleep
+  ) {
+    this.tokens = requestsPerMinute;
+    this.lastRefill = now();
+  }
+
+  private refill(): void {
+    const current = this.now();
+    const elapsed = current - this.lastRefill;
+    this.tokens = Math.min(this.requestsPerMinute, this.tokens + (elapsed * this.requestsPerMinute) / 60000);
+    this.lastRefill = current;
+  }
+
+  /**
+   * Wait until a request slot is available. Waiters are served in FIFO order.
+   */
+  public acquire(): Promise<void> {
+    const turn = this.queue.then(async () => {
+      this.refill();
+      while (this.tokens < 1) {
+        await this.sleep(Math.ceil(((1 - this.tokens) * 60000) / this.requestsPerMinute));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+}
+
+/**
+ * Stops calling a provider after repeated transient failures, then lets a
+ * single trial request through once the cooldown has elapsed. Other callers
+ * are rejected until the trial settles.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly policy: CircuitBreakerPolicy,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  public getState(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.policy.cooldownMs ? 'half-open' : 'open';
+  }
+
+  public remainingCooldown(): number {
+    return this.openedAt === null ? 0 : Math.max(0, this.policy.cooldownMs - (this.now() - this.openedAt));
+  }
+
+  /**
+   * Whether a call may go ahead; in the half-open state only the first caller may
+   */
+  public tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * End a trial whose outcome says nothing about the provider's health, e.g. a rejected request
+   */
+  public release(): void {
+    this.trialInFlight = false;
+  }
+
+  public recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    if (this.getState() === 'half-open' || this.consecutiveFailures >= this.policy.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+// Rate-limit budgets and breakers are per provider, shared across pipeline stages
+const rateLimiters = new Map<string, RateLimiter | null>();
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Budget configured via <PROVIDER>_RATE_LIMIT_RPM or LLM_RATE_LIMIT_RPM; null when unlimited
+ */
+export function getSharedRateLimiter(providerName: string): RateLimiter | null {
+  if (!rateLimiters.has(providerName)) {
+    const requestsPerMinute = getNumberEnv(
+      `${providerName.toUpperCase()}_RATE_LIMIT_RPM`,
+      getNumberEnv('LLM_RATE_LIMIT_RPM', 0)
+    );
+    rateLimiters.set(providerName, requestsPerMinute > 0 ? new RateLimiter(requestsPerMinute) : null);
+  }
+  return rateLimiters.get(providerName)!;
+}
+
+export function getSharedCircuitBreaker(providerName: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(providerName);
+  if (!breaker) {
+    breaker = new CircuitBreaker({
+      failureThreshold: getNumberEnv('LLM_CIRCUIT_FAILURE_THRESHOLD', 5),
+      cooldownMs: getNumberEnv('LLM_CIRCUIT_COOLDOWN_MS', 30000)
+    });
+    circuitBreakers.set(providerName, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Wraps a provider with retries (exponential backoff with full jitter,
+ * honouring Retry-After), a per-provider rate-limit budget and a circuit breaker.
+ */
+export class ResilientProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly model: string;
+  private readonly retry: RetryPolicy;
+  private readonly limiter: RateLimiter | null;
+  private readonly breaker: CircuitBreaker;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  constructor(private readonly inner: LLMProvider, options: ResilienceOptions = {}) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.sleep = options.sleep || defaultSleep;
+    this.random = options.random || Math.random;
+    this.retry = {
+      maxRetries: getNumberEnv('LLM_MAX_RETRIES', 3),
+      baseDelayMs: getNumberEnv('LLM_RETRY_BASE_MS', 500),
+      maxDelayMs: getNumberEnv('LLM_RETRY_MAX_MS', 30000),
+      ...options.retry
+    };
+    this.limiter = options.limiter !== undefined ? options.limiter : getSharedRateLimiter(inner.name);
+    this.breaker = options.breaker || getSharedCircuitBreaker(inner.name);
+  }
+
+  public getCircuitState(): 'closed' | 'open' | 'half-open' {
+    return this.breaker.getState();
+  }
+
+  /**
+   * Exponential backoff with full jitter, capped at maxDelayMs
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.round(this.random() * ceiling);
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    for (let attempt = 0; ; attempt++) {
+      if (!this.breaker.tryAcquire()) {
+        throw new CircuitOpenError(this.name, this.breaker.remainingCooldown());
+      }
+
+      if (this.limiter) {
+        await this.limiter.acquire();
+      }
+
+      try {
+        const response = await this.inner.complete(request);
+        this.breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        const retryable = error instanceof LLMProviderError ? error.retryable : false;
+        if (!retryable) {
+          this.breaker.release();
+          throw error;
+        }
+
+        this.breaker.recordFailure();
+        if (attempt >= this.retry.maxRetries || this.breaker.getState() === 'open') {
+          throw error;
+        }
+
+        // A server-provided Retry-After wins over our own backoff, within maxDelayMs
+        const retryAfter = (error as LLMProviderError).retryAfterMs;
+        const delay = retryAfter !== undefined ? Math.min(retryAfter, this.retry.maxDelayMs) : this.backoffDelay(attempt);
+        console.warn(`${this.name} call failed (${(error as Error).message}); retry ${attempt + 1}/${this.retry.maxRetries} in ${delay}ms`);
+        await this.sleep(delay);
+      }
+    }
+  }
+}
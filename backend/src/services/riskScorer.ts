@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { Law, RiskBreakdown, RiskGroupScore, RiskOutcome, RiskWeights } from '../types';
+
+export interface RiskItem {
+  feature_name: string;
+  law: Law;
+  outcome: RiskOutcome;
+}
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  status: {
+    compliant: 0,
+    requires_review: 50,
+    'non-compliant': 100,
+    // An unreadable answer or a provision screening never reached is as uncertain as a review verdict
+    parse_failed: 50,
+    unscreened: 50
+  },
+  severity: { low: 0.5, medium: 1, high: 1.5, critical: 2 },
+  default_severity: 'medium',
+  laws: {},
+  jurisdictions: {}
+};
+
+/**
+ * Risk weights from RISK_WEIGHTS_JSON_PATH, each section merged over the defaults
+ */
+export function loadRiskWeights(): RiskWeights {
+  const weightsPath = path.resolve(process.env.RISK_WEIGHTS_JSON_PATH || './src/data/risk-weights.json');
+  let configured: Partial<RiskWeights> = {};
+  try {
+    if (fs.existsSync(weightsPath)) {
+      configured = JSON.parse(fs.readFileSync(weightsPath, 'utf8'));
+    }
+  } catch (error) {
+    console.warn('Could not load risk weights:', error);
+  }
+  return mergeRiskWeights(configured);
+}
+
+export function mergeRiskWeights(overrides: Partial<RiskWeights> = {}): RiskWeights {
+  return {
+    status: { ...DEFAULT_RISK_WEIGHTS.status, ...overrides.status },
+    severity: { ...DEFAULT_RISK_WEIGHTS.severity, ...overrides.severity },
+    default_severity: overrides.default_severity || DEFAULT_RISK_WEIGHTS.default_severity,
+    laws: { ...DEFAULT_RISK_WEIGHTS.laws, ...overrides.laws },
+    jurisdictions: { ...DEFAULT_RISK_WEIGHTS.jurisdictions, ...overrides.jurisdictions }
+  };
+}
+
+/**
+ * Scores assessed provisions from 0 (no risk) to 100. Each provision earns
+ * the points of its outcome, and the score is the average of those points
+ * weighted by the law's severity, its penalty multiplier and the
+ * jurisdiction's multiplier.
+ */
+export class RiskScorer {
+  private weights: RiskWeights;
+
+  constructor(weights: Partial<RiskWeights> = loadRiskWeights()) {
+    this.weights = mergeRiskWeights(weights);
+  }
+
+  public getWeights(): RiskWeights {
+    return this.weights;
+  }
+
+  /**
+   * How much a provision counts towards the average
+   */
+  public itemWeight(law: Law): number {
+    const profile = this.weights.laws[law.law_id] || this.weights.laws[law.law_title] || {};
+    const severity = this.weights.severity[profile.severity || this.weights.default_severity] ?? 1;
+    const jurisdiction = this.weights.jurisdictions[law['country-region']] ?? 1;
+    return Math.max(0, severity * (profile.penalty ?? 1) * jurisdiction);
+  }
+
+  public score(items: RiskItem[]): number {
+    let points = 0;
+    let weight = 0;
+    for (const item of items) {
+      const itemWeight = this.itemWeight(item.law);
+      points += itemWeight * (this.weights.status[item.outcome] ?? 0);
+      weight += itemWeight;
+    }
+    return weight === 0 ? 0 : Math.round(points / weight);
+  }
+
+  public breakdown(items: RiskItem[]): RiskBreakdown {
+    return {
+      overall_score: this.score(items),
+      by_feature: this.groupScores(items, item => item.feature_name),
+      by_jurisdiction: this.groupScores(items, item => item.law['country-region'])
+    };
+  }
+
+  private groupScores(items: RiskItem[], keyOf: (item: RiskItem) => string): RiskGroupScore[] {
+    const groups = new Map<string, RiskItem[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+    return [...groups.entries()].map(([name, grouped]) => ({
+      name,
+      score: this.score(grouped),
+      items: grouped.length,
+      non_compliant_count: grouped.filter(item => item.outcome === 'non-compliant').length,
+      review_count: grouped.filter(item => item.outcome !== 'non-compliant' && item.outcome !== 'compliant').length
+    }));
+  }
+}
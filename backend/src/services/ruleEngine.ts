@@ -0,0 +1,258 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { STATUS_SEVERITY } from './ensemble';
+import { ComplianceRule, ComplianceStatus, Feature, Law, RuleCondition, RuleField, RuleHit } from '../types';
+
+const RULE_FILE = /\.(json|ya?ml)$/i;
+const FIELDS: RuleField[] = ['feature_name', 'feature_description', 'text'];
+const STATUSES = Object.keys(STATUS_SEVERITY);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so "CA" does not match "vacation"
+const keywordPattern = (keyword: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+
+function validateCondition(condition: unknown, where: string): string[] {
+  if (!isObject(condition)) {
+    return [`${where} must be an object`];
+  }
+  if ('all' in condition || 'any' in condition) {
+    const list = condition.all ?? condition.any;
+    const key = 'all' in condition ? 'all' : 'any';
+    return Array.isArray(list) && list.length > 0
+      ? list.flatMap((child, index) => validateCondition(child, `${where}.${key}[${index}]`))
+      : [`${where}.${key} must be a non-empty list`];
+  }
+  if ('not' in condition) {
+    return validateCondition(condition.not, `${where}.not`);
+  }
+
+  const errors: string[] = [];
+  if (condition.field !== undefined && !FIELDS.includes(condition.field as RuleField)) {
+    errors.push(`${where}.field must be one of ${FIELDS.join(', ')}`);
+  }
+  if ('keywords' in condition) {
+    if (!isStringList(condition.keywords) || condition.keywords.length === 0) {
+      errors.push(`${where}.keywords must be a non-empty list of strings`);
+    }
+    if (condition.match !== undefined && condition.match !== 'any' && condition.match !== 'all') {
+      errors.push(`${where}.match must be "any" or "all"`);
+    }
+  } else if ('pattern' in condition) {
+    try {
+      new RegExp(String(condition.pattern), 'i');
+    } catch {
+      errors.push(`${where}.pattern is not a valid regular expression`);
+    }
+  } else {
+    errors.push(`${where} needs one of all, any, not, keywords or pattern`);
+  }
+  return errors;
+}
+
+/**
+ * Problems with a rule, each prefixed with where it was found; empty when the rule is valid
+ */
+export function validateRule(rule: unknown, where = 'rule'): string[] {
+  if (!isObject(rule)) {
+    return [`${where} must be an object`];
+  }
+  const label = typeof rule.id === 'string' && rule.id.trim() ? `${where} "${rule.id}"` : where;
+  const errors: string[] = [];
+  if (typeof rule.id !== 'string' || !rule.id.trim()) {
+    errors.push(`${label}: id is required`);
+  }
+  if (!isStringList(rule.laws) || rule.laws.length === 0) {
+    errors.push(`${label}: laws must list at least one law id or title`);
+  }
+  if (rule.provisions !== undefined && !(Array.isArray(rule.provisions) && rule.provisions.every(p => typeof p === 'string' || typeof p === 'number'))) {
+    errors.push(`${label}: provisions must be a list of provision indexes`);
+  }
+  errors.push(...validateCondition(rule.when, 'when').map(error => `${label}: ${error}`));
+
+  const effect = rule.then;
+  if (!isObject(effect)) {
+    errors.push(`${label}: then must be an object`);
+  } else {
+    if (effect.relevant === undefined && effect.status === undefined) {
+      errors.push(`${label}: then must set relevant or status`);
+    }
+    if (effect.relevant !== undefined && typeof effect.relevant !== 'boolean') {
+      errors.push(`${label}: then.relevant must be true or false`);
+    }
+    if (effect.status !== undefined && !STATUSES.includes(effect.status as string)) {
+      errors.push(`${label}: then.status must be one of ${STATUSES.join(', ')}`);
+    }
+    if (effect.recommendations !== undefined && !isStringList(effect.recommendations)) {
+      errors.push(`${label}: then.recommendations must be a list of strings`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Deterministic checks written as rules in JSON or YAML. A rule names the
+ * laws (and optionally provisions) it covers, a condition on the feature's
+ * name and description, and its effect: forcing the provision relevant or
+ * irrelevant at screening, setting the verdict at assessment, or both.
+ */
+export class RuleEngine {
+  private rules: ComplianceRule[];
+  private errors: string[];
+
+  constructor(rules: ComplianceRule[] = [], errors: string[] = []) {
+    this.rules = rules.map(rule => ({ ...rule, provisions: rule.provisions?.map(String) }));
+    this.errors = errors;
+  }
+
+  /**
+   * Rules from RULES_PATH: a rules file, or a directory whose .json, .yaml and
+   * .yml files each hold a list of rules (or `{ rules: [...] }`). Invalid rules
+   * are skipped and reported by getErrors().
+   */
+  public static load(rulesPath = process.env.RULES_PATH || './rules'): RuleEngine {
+    const resolved = path.resolve(rulesPath);
+    if (!fs.existsSync(resolved)) {
+      return new RuleEngine();
+    }
+    const files = fs.statSync(resolved).isDirectory()
+      ? fs.readdirSync(resolved).filter(name => RULE_FILE.test(name)).sort().map(name => path.join(resolved, name))
+      : [resolved];
+
+    const rules: ComplianceRule[] = [];
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    for (const file of files) {
+      const name = path.basename(file);
+      let entries: unknown;
+      try {
+        const content = fs.readFileSync(file, 'utf8');
+        const parsed = /\.json$/i.test(file) ? JSON.parse(content) : parseYaml(content);
+        entries = isObject(parsed) && 'rules' in parsed ? parsed.rules : parsed;
+      } catch (error) {
+        errors.push(`${name}: ${error instanceof Error ? error.message : 'could not be read'}`);
+        continue;
+      }
+      if (!Array.isArray(entries)) {
+        errors.push(`${name}: expected a list of rules`);
+        continue;
+      }
+      entries.forEach((entry, index) => {
+        const problems = validateRule(entry, `${name}[${index}]`);
+        if (problems.length === 0 && ids.has((entry as ComplianceRule).id)) {
+          problems.push(`${name}[${index}]: duplicate rule id "${(entry as ComplianceRule).id}"`);
+        }
+        if (problems.length > 0) {
+          errors.push(...problems);
+          return;
+        }
+        ids.add((entry as ComplianceRule).id);
+        rules.push(entry as ComplianceRule);
+      });
+    }
+
+    if (errors.length > 0) {
+      console.warn(`Skipped invalid compliance rules:\n${errors.join('\n')}`);
+    }
+    return new RuleEngine(rules, errors);
+  }
+
+  public getRules(): ComplianceRule[] {
+    return this.rules;
+  }
+
+  public getErrors(): string[] {
+    return this.errors;
+  }
+
+  /**
+   * Rules that cover the provision and whose condition the feature meets
+   */
+  public evaluate(feature: Feature, law: Law): RuleHit[] {
+    const hits: RuleHit[] = [];
+    for (const rule of this.rules) {
+      if (!this.covers(rule, law)) {
+        continue;
+      }
+      const matched: string[] = [];
+      if (this.matches(rule.when, feature, matched)) {
+        hits.push({
+          rule_id: rule.id,
+          ...(rule.description ? { description: rule.description } : {}),
+          matched: [...new Set(matched)],
+          ...(rule.then.relevant !== undefined ? { relevant: rule.then.relevant } : {}),
+          ...(rule.then.status ? { status: rule.then.status } : {})
+        });
+      }
+    }
+    return hits;
+  }
+
+  /**
+   * Relevance the hits decide, if any. A rule forcing relevance wins over one excluding the provision.
+   */
+  public static relevance(hits: RuleHit[]): boolean | undefined {
+    const decided = hits.filter(hit => hit.relevant !== undefined);
+    return decided.length === 0 ? undefined : decided.some(hit => hit.relevant);
+  }
+
+  /**
+   * Status the hits set, if any; the strictest wins when rules disagree
+   */
+  public static status(hits: RuleHit[]): ComplianceStatus | undefined {
+    return hits
+      .map(hit => hit.status)
+      .filter((status): status is ComplianceStatus => status !== undefined)
+      .reduce<ComplianceStatus | undefined>((worst, status) =>
+        !worst || STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst, undefined);
+  }
+
+  private covers(rule: ComplianceRule, law: Law): boolean {
+    return (rule.laws.includes(law.law_id) || rule.laws.includes(law.law_title))
+      && (!rule.provisions || rule.provisions.includes(law.index));
+  }
+
+  private matches(condition: RuleCondition, feature: Feature, matched: string[]): boolean {
+    if ('all' in condition || 'any' in condition) {
+      // Every branch is evaluated so all matching terms are reported, but only those of a match
+      const found: string[] = [];
+      const results = ('all' in condition ? condition.all : condition.any).map(child => this.matches(child, feature, found));
+      const ok = 'all' in condition ? results.every(Boolean) : results.some(Boolean);
+      if (ok) {
+        matched.push(...found);
+      }
+      return ok;
+    }
+    if ('not' in condition) {
+      return !this.matches(condition.not, feature, []);
+    }
+
+    const text = condition.field === 'feature_name'
+      ? feature.feature_name
+      : condition.field === 'feature_description'
+        ? feature.feature_description
+        : `${feature.feature_name}\n${feature.feature_description}`;
+    if ('pattern' in condition) {
+      const match = new RegExp(condition.pattern, 'i').exec(text);
+      if (match) {
+        matched.push(match[0]);
+      }
+      return !!match;
+    }
+
+    const found = condition.keywords.filter(keyword => keywordPattern(keyword).test(text));
+    const ok = condition.match === 'all' ? found.length === condition.keywords.length : found.length > 0;
+    if (ok) {
+      matched.push(...found);
+    }
+    return ok;
+  }
+}
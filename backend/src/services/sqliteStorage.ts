@@ -0,0 +1,296 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ComplianceStatus, Correction, Feature, Law, StoredRun, StoredRunSummary } from '../types';
+import { FeatureRepository, FeedbackRepository, LawRepository, RepositoryLoad, ResultRepository, Storage, summarizeRun } from './storage';
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * Schema changes in order. Applied migrations are recorded in
+ * schema_migrations; never edit one that has shipped, add a new version.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    sql: `
+      CREATE TABLE laws (
+        provision_index TEXT PRIMARY KEY,
+        law_description TEXT NOT NULL,
+        law_title TEXT NOT NULL,
+        country_region TEXT NOT NULL,
+        position INTEGER NOT NULL
+      );
+      CREATE TABLE features (
+        feature_name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        feature_description TEXT NOT NULL,
+        position INTEGER NOT NULL
+      );
+      CREATE TABLE feedback (
+        id TEXT PRIMARY KEY,
+        feature_name TEXT,
+        law_title TEXT,
+        feedback_type TEXT NOT NULL,
+        message TEXT,
+        user_email TEXT,
+        timestamp TEXT NOT NULL,
+        status TEXT NOT NULL,
+        original_status TEXT,
+        original_confidence REAL,
+        corrected_status TEXT
+      );
+      CREATE INDEX feedback_by_type ON feedback (feedback_type);
+      CREATE TABLE runs (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        response TEXT NOT NULL
+      );
+      CREATE TABLE results (
+        run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        feature_name TEXT NOT NULL,
+        law_id TEXT,
+        law_title TEXT NOT NULL,
+        compliance_status TEXT NOT NULL,
+        confidence REAL,
+        PRIMARY KEY (run_id, position)
+      );
+      CREATE INDEX results_by_feature ON results (feature_name);
+    `
+  },
+  {
+    version: 2,
+    name: 'stable law ids',
+    sql: `
+      ALTER TABLE laws ADD COLUMN law_id TEXT;
+    `
+  }
+];
+
+/**
+ * Apply the migrations the database has not seen yet, each in its own transaction
+ * @returns Versions applied by this call
+ */
+export function migrate(db: Database.Database, migrations: Migration[] = MIGRATIONS): number[] {
+  db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+  const applied = new Set(db.prepare('SELECT version FROM schema_migrations').all().map(row => (row as { version: number }).version));
+  const pending = [...migrations].sort((a, b) => a.version - b.version).filter(migration => !applied.has(migration.version));
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.name, new Date().toISOString());
+    })();
+    console.log(`Applied storage migration ${migration.version}: ${migration.name}`);
+  }
+  return pending.map(migration => migration.version);
+}
+
+interface LawRow {
+  provision_index: string;
+  law_description: string;
+  law_title: string;
+  country_region: string;
+  law_id: string | null;
+}
+
+interface FeedbackRow {
+  id: string;
+  feature_name: string | null;
+  law_title: string | null;
+  feedback_type: string;
+  message: string | null;
+  user_email: string | null;
+  timestamp: string;
+  status: Correction['status'];
+  original_status: ComplianceStatus | null;
+  original_confidence: number | null;
+  corrected_status: ComplianceStatus | null;
+}
+
+class SqliteLawRepository implements LawRepository {
+  constructor(private db: Database.Database) {}
+
+  public async load(): Promise<RepositoryLoad<Law>> {
+    const rows = this.db.prepare('SELECT * FROM laws ORDER BY position').all() as LawRow[];
+    return {
+      records: rows.map(row => ({
+        index: row.provision_index,
+        law_description: row.law_description,
+        law_title: row.law_title,
+        'country-region': row.country_region,
+        law_id: row.law_id || ''
+      }))
+    };
+  }
+
+  public async replaceAll(laws: Law[]): Promise<void> {
+    const insert = this.db.prepare(
+      'INSERT INTO laws (provision_index, law_description, law_title, country_region, position, law_id) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    this.db.transaction(() => {
+      this.db.exec('DELETE FROM laws');
+      laws.forEach((law, position) => insert.run(law.index, law.law_description, law.law_title, law['country-region'], position, law.law_id || null));
+    })();
+  }
+}
+
+class SqliteFeatureRepository implements FeatureRepository {
+  constructor(private db: Database.Database) {}
+
+  public async load(): Promise<RepositoryLoad<Feature>> {
+    return { records: this.db.prepare('SELECT feature_name, feature_description FROM features ORDER BY position').all() as Feature[] };
+  }
+
+  public async add(feature: Feature): Promise<void> {
+    this.db.prepare(
+      'INSERT INTO features (feature_name, feature_description, position) VALUES (?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM features))'
+    ).run(feature.feature_name, feature.feature_description);
+  }
+
+  public async replaceAll(features: Feature[]): Promise<void> {
+    const insert = this.db.prepare('INSERT INTO features (feature_name, feature_description, position) VALUES (?, ?, ?)');
+    this.db.transaction(() => {
+      this.db.exec('DELETE FROM features');
+      features.forEach((feature, position) => insert.run(feature.feature_name, feature.feature_description, position));
+    })();
+  }
+}
+
+class SqliteFeedbackRepository implements FeedbackRepository {
+  constructor(private db: Database.Database) {}
+
+  public listFeedback(): Correction[] {
+    return (this.db.prepare('SELECT * FROM feedback ORDER BY timestamp, rowid').all() as FeedbackRow[]).map(toCorrection);
+  }
+
+  public listCorrections(): Correction[] {
+    return (this.db.prepare("SELECT * FROM feedback WHERE feedback_type = 'correction' ORDER BY timestamp, rowid").all() as FeedbackRow[])
+      .map(toCorrection);
+  }
+
+  /**
+   * Insert an entry, replacing one with the same id so imports can be re-run
+   */
+  public add(entry: Correction): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO feedback (id, feature_name, law_title, feedback_type, message, user_email, timestamp, status,
+        original_status, original_confidence, corrected_status)
+      VALUES (@id, @feature_name, @law_title, @feedback_type, @message, @user_email, @timestamp, @status,
+        @original_status, @original_confidence, @corrected_status)
+    `).run({
+      id: entry.id,
+      feature_name: entry.feature_name ?? null,
+      law_title: entry.law_title ?? null,
+      feedback_type: entry.feedback_type,
+      message: entry.message ?? null,
+      user_email: entry.user_email ?? null,
+      timestamp: entry.timestamp,
+      status: entry.status,
+      original_status: entry.original_status ?? null,
+      original_confidence: entry.original_confidence ?? null,
+      corrected_status: entry.corrected_status ?? null
+    });
+  }
+
+  public updateStatus(id: string, status: Correction['status']): void {
+    this.db.prepare('UPDATE feedback SET status = ? WHERE id = ?').run(status, id);
+  }
+
+  public delete(id: string): void {
+    this.db.prepare('DELETE FROM feedback WHERE id = ?').run(id);
+  }
+}
+
+// Columns left empty are omitted, as they are in corrections.json
+function toCorrection(row: FeedbackRow): Correction {
+  const entry: Record<string, unknown> = {};
+  Object.entries(row).forEach(([key, value]) => {
+    if (value !== null) {
+      entry[key] = value;
+    }
+  });
+  return entry as unknown as Correction;
+}
+
+class SqliteResultRepository implements ResultRepository {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Store a run and one row per result for querying; replaces a run with the same id
+   */
+  public add(run: StoredRun): void {
+    const insertResult = this.db.prepare(`
+      INSERT INTO results (run_id, position, feature_name, law_id, law_title, compliance_status, confidence)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM runs WHERE id = ?').run(run.id);
+      this.db.prepare('INSERT INTO runs (id, created_at, response) VALUES (?, ?, ?)').run(run.id, run.created_at, JSON.stringify(run.response));
+      run.response.results.forEach((result, position) => insertResult.run(
+        run.id, position, result.feature_name, result.law_id ?? null, result.law_title, result.compliance_status, result.confidence ?? null
+      ));
+    })();
+  }
+
+  public list(limit = 50): StoredRunSummary[] {
+    return (this.db.prepare('SELECT * FROM runs ORDER BY created_at DESC, rowid DESC LIMIT ?').all(limit) as RunRow[])
+      .map(row => summarizeRun(toRun(row)));
+  }
+
+  public get(id: string): StoredRun | undefined {
+    const row = this.db.prepare('SELECT * FROM runs WHERE id = ?').get(id) as RunRow | undefined;
+    return row ? toRun(row) : undefined;
+  }
+}
+
+interface RunRow {
+  id: string;
+  created_at: string;
+  response: string;
+}
+
+const toRun = (row: RunRow): StoredRun => ({ id: row.id, created_at: row.created_at, response: JSON.parse(row.response) });
+
+/**
+ * Laws, features, feedback and results in one embedded SQLite database.
+ * The schema is migrated to the latest version when the database is opened.
+ */
+export class SqliteStorage implements Storage {
+  public readonly backend = 'sqlite';
+  public readonly laws: LawRepository;
+  public readonly features: FeatureRepository;
+  public readonly feedback: FeedbackRepository;
+  public readonly results: ResultRepository;
+
+  private constructor(private db: Database.Database) {
+    this.laws = new SqliteLawRepository(db);
+    this.features = new SqliteFeatureRepository(db);
+    this.feedback = new SqliteFeedbackRepository(db);
+    this.results = new SqliteResultRepository(db);
+  }
+
+  public static open(filePath: string): SqliteStorage {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+    return new SqliteStorage(db);
+  }
+
+  public getSchemaVersion(): number {
+    return (this.db.prepare('SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations').get() as { version: number }).version;
+  }
+
+  public close(): void {
+    this.db.close();
+  }
+}
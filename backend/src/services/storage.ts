@@ -0,0 +1,118 @@
+import path from 'path';
+import { CSVLoadReport, ComplianceCheckResponse, Correction, Feature, Law, StoredRun, StoredRunSummary } from '../types';
+import { createFileStorage } from './fileStorage';
+import { SqliteStorage } from './sqliteStorage';
+
+export type StorageBackend = 'file' | 'sqlite';
+
+export interface StorageOptions {
+  backend: StorageBackend;
+  sqlitePath: string;
+}
+
+/**
+ * Storage settings from STORAGE_BACKEND (file or sqlite) and SQLITE_PATH
+ */
+export function getStorageOptions(overrides: Partial<StorageOptions> = {}): StorageOptions {
+  return {
+    backend: process.env.STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'file',
+    sqlitePath: process.env.SQLITE_PATH || './src/data/regulium.sqlite',
+    ...overrides
+  };
+}
+
+export interface RepositoryLoad<T> {
+  records: T[];
+  // Rows skipped while reading a CSV file; file storage only
+  report?: CSVLoadReport;
+}
+
+/**
+ * Provisions in stored order, each with the id of its law (the law_id column
+ * of laws.csv, added to SQLite by migration 2). Stored ids are kept when a law
+ * is renamed; DataHandler derives ids from titles only for rows without one.
+ */
+export interface LawRepository {
+  load(): Promise<RepositoryLoad<Law>>;
+  replaceAll(laws: Law[]): Promise<void>;
+}
+
+export interface FeatureRepository {
+  load(): Promise<RepositoryLoad<Feature>>;
+  add(feature: Feature): Promise<void>;
+  replaceAll(features: Feature[]): Promise<void>;
+}
+
+/**
+ * Reviewer feedback; corrections are the entries of type "correction"
+ */
+export interface FeedbackRepository {
+  listFeedback(): Correction[];
+  listCorrections(): Correction[];
+  add(entry: Correction): void;
+  updateStatus(id: string, status: Correction['status']): void;
+  delete(id: string): void;
+}
+
+/**
+ * Responses of past compliance runs
+ */
+export interface ResultRepository {
+  add(run: StoredRun): void;
+  list(limit?: number): StoredRunSummary[];
+  get(id: string): StoredRun | undefined;
+}
+
+export interface Storage {
+  backend: StorageBackend;
+  laws: LawRepository;
+  features: FeatureRepository;
+  feedback: FeedbackRepository;
+  results: ResultRepository;
+}
+
+const sqliteStorages = new Map<string, SqliteStorage>();
+
+/**
+ * Repositories of the configured backend. File repositories resolve their
+ * paths when created; SQLite databases are opened (and migrated) once per
+ * path and shared.
+ */
+export function getStorage(overrides: Partial<StorageOptions> = {}): Storage {
+  const options = getStorageOptions(overrides);
+  if (options.backend === 'file') {
+    return createFileStorage();
+  }
+  const resolved = path.resolve(options.sqlitePath);
+  let storage = sqliteStorages.get(resolved);
+  if (!storage) {
+    storage = SqliteStorage.open(resolved);
+    sqliteStorages.set(resolved, storage);
+  }
+  return storage;
+}
+
+/**
+ * Close every SQLite database opened by getStorage
+ */
+export function closeStorage(): void {
+  sqliteStorages.forEach(storage => storage.close());
+  sqliteStorages.clear();
+}
+
+export function createRun(response: ComplianceCheckResponse): StoredRun {
+  return { id: `run_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`, created_at: new Date().toISOString(), response };
+}
+
+export function summarizeRun(run: StoredRun): StoredRunSummary {
+  const summary = run.response.summary;
+  return {
+    id: run.id,
+    created_at: run.created_at,
+    features: run.response.screening.map(screening => screening.feature_name),
+    total_features: summary.total_features,
+    non_compliant_count: summary.non_compliant_count,
+    review_required_count: summary.review_required_count,
+    overall_risk_score: summary.overall_risk_score
+  };
+}
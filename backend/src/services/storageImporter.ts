@@ -0,0 +1,77 @@
+import { Correction, StorageImportReport, StoredRun } from '../types';
+import { Storage } from './storage';
+
+/**
+ * Records whose key is not already taken by an earlier one; the others are
+ * reported, since the target's replaceAll would fail on the whole list
+ */
+function uniqueBy<T>(records: T[], key: (record: T) => string, duplicate: (record: T) => string, errors: string[]): T[] {
+  const seen = new Set<string>();
+  return records.filter(record => {
+    if (seen.has(key(record))) {
+      errors.push(duplicate(record));
+      return false;
+    }
+    seen.add(key(record));
+    return true;
+  });
+}
+
+/**
+ * Copy laws, features, feedback and results from one storage to another,
+ * typically from the CSV and JSON files into SQLite. Laws and features
+ * replace the target's; feedback and runs are upserted by id, so the import
+ * can be re-run. Unparseable CSV rows, laws and features that repeat an
+ * earlier provision index or feature name, and entries the target rejects
+ * are skipped and reported.
+ */
+export async function importStorage(source: Storage, target: Storage): Promise<StorageImportReport> {
+  const report: StorageImportReport = { laws: 0, features: 0, feedback: 0, results: 0, errors: [] };
+
+  const laws = await source.laws.load();
+  const features = await source.features.load();
+  [laws.report, features.report].forEach(load => load?.errors.forEach(error =>
+    report.errors.push(`${load.file} row ${error.row}: ${error.message}`)));
+
+  const uniqueLaws = uniqueBy(
+    laws.records,
+    law => law.index,
+    law => `${laws.report?.file || 'laws'}: provision index "${law.index}" (${law.law_title}) is used by an earlier row`,
+    report.errors
+  );
+  await target.laws.replaceAll(uniqueLaws);
+  report.laws = uniqueLaws.length;
+
+  // Feature names are unique regardless of case
+  const uniqueFeatures = uniqueBy(
+    features.records,
+    feature => feature.feature_name.toLowerCase(),
+    feature => `${features.report?.file || 'features'}: feature "${feature.feature_name}" is named by an earlier row`,
+    report.errors
+  );
+  await target.features.replaceAll(uniqueFeatures);
+  report.features = uniqueFeatures.length;
+
+  // corrections.json lists corrections twice; older files may have them only in one list
+  const entries = new Map<string, Correction>();
+  [...source.feedback.listFeedback(), ...source.feedback.listCorrections()].forEach(entry => entries.set(entry.id, entry));
+  entries.forEach(entry => {
+    try {
+      target.feedback.add(entry);
+      report.feedback++;
+    } catch (error) {
+      report.errors.push(`feedback ${entry.id}: ${error instanceof Error ? error.message : 'could not be imported'}`);
+    }
+  });
+
+  // Oldest first, so the target lists them in the same order
+  const runs = source.results.list(Number.MAX_SAFE_INTEGER).reverse()
+    .map(summary => source.results.get(summary.id))
+    .filter((run): run is StoredRun => run !== undefined);
+  runs.forEach(run => {
+    target.results.add(run);
+    report.results++;
+  });
+
+  return report;
+}
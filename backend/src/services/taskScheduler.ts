@@ -0,0 +1,129 @@
+import { getNumberEnv } from '../utils/envUtils';
+
+export type SchedulingOrder = 'round-robin' | 'fifo';
+
+export interface SchedulerOptions {
+  concurrency: number;
+  maxPerGroup: number;
+  ordering: SchedulingOrder;
+}
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+  sequence: number;
+}
+
+interface TaskGroup {
+  name: string;
+  queue: QueuedTask[];
+  running: number;
+}
+
+/**
+ * Scheduler configuration from COMPLIANCE_CONCURRENCY, COMPLIANCE_MAX_PER_FEATURE
+ * and COMPLIANCE_SCHEDULING (round-robin | fifo)
+ */
+export function getSchedulerOptions(overrides: Partial<SchedulerOptions> = {}): SchedulerOptions {
+  const concurrency = Math.max(1, overrides.concurrency ?? getNumberEnv('COMPLIANCE_CONCURRENCY', 4));
+  const ordering = overrides.ordering
+    ?? (process.env.COMPLIANCE_SCHEDULING === 'fifo' ? 'fifo' : 'round-robin');
+  return {
+    concurrency,
+    maxPerGroup: Math.max(1, overrides.maxPerGroup ?? getNumberEnv('COMPLIANCE_MAX_PER_FEATURE', concurrency)),
+    ordering
+  };
+}
+
+/**
+ * Runs async tasks with a global concurrency limit. Tasks belong to a group
+ * (one per feature); `round-robin` ordering rotates between groups so a feature
+ * with many relevant laws cannot starve the others, and `maxPerGroup` caps how
+ * many calls a single feature may have in flight. `fifo` dispatches in
+ * submission order.
+ */
+export class TaskScheduler {
+  private groups = new Map<string, TaskGroup>();
+  private rotation: string[] = [];
+  private cursor = 0;
+  private running = 0;
+  private sequence = 0;
+
+  constructor(private readonly options: SchedulerOptions = getSchedulerOptions()) {}
+
+  public schedule<T>(group: string, run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      let taskGroup = this.groups.get(group);
+      if (!taskGroup) {
+        taskGroup = { name: group, queue: [], running: 0 };
+        this.groups.set(group, taskGroup);
+        this.rotation.push(group);
+      }
+      taskGroup.queue.push({ run, resolve, reject, sequence: this.sequence++ });
+      this.dispatch();
+    });
+  }
+
+  public getRunningCount(): number {
+    return this.running;
+  }
+
+  private nextGroup(): TaskGroup | undefined {
+    const eligible = (name: string) => {
+      const group = this.groups.get(name)!;
+      return group.queue.length > 0 && group.running < this.options.maxPerGroup;
+    };
+
+    if (this.options.ordering === 'fifo') {
+      let oldest: TaskGroup | undefined;
+      for (const name of this.rotation) {
+        const group = this.groups.get(name)!;
+        if (eligible(name) && (!oldest || group.queue[0].sequence < oldest.queue[0].sequence)) {
+          oldest = group;
+        }
+      }
+      return oldest;
+    }
+
+    // Resume after the group served last; groups that joined since then come first
+    for (let i = 0; i < this.rotation.length; i++) {
+      const index = (this.cursor + i) % this.rotation.length;
+      if (eligible(this.rotation[index])) {
+        this.cursor = index + 1;
+        return this.groups.get(this.rotation[index]);
+      }
+    }
+    return undefined;
+  }
+
+  private dispatch(): void {
+    while (this.running < this.options.concurrency) {
+      const group = this.nextGroup();
+      if (!group) {
+        return;
+      }
+
+      const task = group.queue.shift()!;
+      group.running++;
+      this.running++;
+
+      Promise.resolve()
+        .then(task.run)
+        .then(task.resolve, task.reject)
+        .finally(() => {
+          group.running--;
+          this.running--;
+          if (group.running === 0 && group.queue.length === 0) {
+            const index = this.rotation.indexOf(group.name);
+            this.groups.delete(group.name);
+            this.rotation.splice(index, 1);
+            if (index < this.cursor) {
+              this.cursor--;
+            }
+          }
+          this.dispatch();
+        });
+    }
+  }
+}
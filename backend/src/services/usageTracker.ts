@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMStage, LLMUsage, ModelPricing, RunBudget, UsageSummary, UsageTotals } from '../types';
+import { getNumberEnv } from '../utils/envUtils';
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly usage: UsageSummary) {
+    super(usage.budget.cost_unknown
+      ? `Run cost budget cannot be enforced: no price for ${usage.unpriced_models.join(', ')}`
+      : `Run budget exceeded: ${usage.total.total_tokens} tokens, $${usage.total.estimated_cost_usd.toFixed(4)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface UsageRecord {
+  stage: LLMStage;
+  feature_name: string;
+  law_title?: string;
+  // Model the provider reported, which may be a dated snapshot of the one configured
+  model: string;
+  configured_model?: string;
+  usage?: LLMUsage;
+}
+
+let pricingTable: { [model: string]: ModelPricing } | null = null;
+
+/**
+ * Per-model token prices (USD per million tokens) from MODEL_PRICING_JSON_PATH
+ */
+export function loadModelPricing(): { [model: string]: ModelPricing } {
+  if (!pricingTable) {
+    try {
+      const pricingPath = path.resolve(process.env.MODEL_PRICING_JSON_PATH || './src/data/model-pricing.json');
+      pricingTable = fs.existsSync(pricingPath) ? JSON.parse(fs.readFileSync(pricingPath, 'utf8')) : {};
+    } catch (error) {
+      console.warn('Could not load model pricing:', error);
+      pricingTable = {};
+    }
+  }
+  return pricingTable!;
+}
+
+/**
+ * Budget for a run: request values win over RUN_MAX_TOKENS / RUN_MAX_COST_USD / RUN_BUDGET_POLICY
+ */
+export function resolveRunBudget(budget: RunBudget = {}): RunBudget & { on_exceed: 'abort' | 'degrade' } {
+  const maxTokens = budget.max_tokens ?? getNumberEnv('RUN_MAX_TOKENS', 0);
+  const maxCost = budget.max_cost_usd ?? getNumberEnv('RUN_MAX_COST_USD', 0);
+  return {
+    max_tokens: maxTokens > 0 ? maxTokens : undefined,
+    max_cost_usd: maxCost > 0 ? maxCost : undefined,
+    on_exceed: budget.on_exceed || (process.env.RUN_BUDGET_POLICY === 'abort' ? 'abort' : 'degrade')
+  };
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+  estimated_cost_usd: 0
+});
+
+/**
+ * Accumulates token counts and estimated cost for one compliance run and
+ * enforces its budget
+ */
+export class UsageTracker {
+  private total = emptyTotals();
+  private byStage: { [key: string]: UsageTotals } = {};
+  private byFeature: { [key: string]: UsageTotals } = {};
+  private byLaw: { [key: string]: UsageTotals } = {};
+  private byModel: { [key: string]: UsageTotals } = {};
+  private unpricedModels = new Set<string>();
+  private skippedCalls = 0;
+  private skippedFeatures = new Set<string>();
+  private readonly budget: RunBudget & { on_exceed: 'abort' | 'degrade' };
+  private readonly pricing: { [model: string]: ModelPricing };
+
+  constructor(budget?: RunBudget, pricing?: { [model: string]: ModelPricing }) {
+    this.budget = resolveRunBudget(budget);
+    this.pricing = pricing || loadModelPricing();
+  }
+
+  public getBudgetPolicy(): 'abort' | 'degrade' {
+    return this.budget.on_exceed;
+  }
+
+  /**
+   * Price for the reported model, else the configured one, else the longest
+   * priced name the reported model starts with (e.g. gpt-4o-mini-2024-07-18)
+   */
+  private findPrice(model: string, configuredModel?: string): ModelPricing | undefined {
+    const prefix = Object.keys(this.pricing)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return this.pricing[model]
+      || (configuredModel ? this.pricing[configuredModel] : undefined)
+      || (prefix ? this.pricing[prefix] : undefined);
+  }
+
+  public estimateCost(model: string, usage: LLMUsage, configuredModel?: string): number {
+    const price = this.findPrice(model, configuredModel);
+    if (!price) {
+      if (!this.unpricedModels.has(model) && this.budget.max_cost_usd !== undefined) {
+        console.warn(`No price for model ${model}; the run's cost budget of $${this.budget.max_cost_usd} cannot be enforced`);
+      }
+      this.unpricedModels.add(model);
+      return 0;
+    }
+    return (usage.prompt_tokens * price.input_per_million + usage.completion_tokens * price.output_per_million) / 1_000_000;
+  }
+
+  /**
+   * A cost budget is set but some usage could not be priced, so the estimate is too low to enforce it
+   */
+  private isCostUnknown(): boolean {
+    return this.budget.max_cost_usd !== undefined && this.unpricedModels.size > 0;
+  }
+
+  private bucket(totals: { [key: string]: UsageTotals }, key: string): UsageTotals {
+    if (!totals[key]) {
+      totals[key] = emptyTotals();
+    }
+    return totals[key];
+  }
+
+  public record(entry: UsageRecord): void {
+    const usage = entry.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    const cost = this.estimateCost(entry.model, usage, entry.configured_model);
+    const targets = [
+      this.total,
+      this.bucket(this.byStage, entry.stage),
+      this.bucket(this.byFeature, entry.feature_name),
+      this.bucket(this.byModel, entry.model)
+    ];
+    if (entry.law_title) {
+      targets.push(this.bucket(this.byLaw, entry.law_title));
+    }
+
+    for (const totals of targets) {
+      totals.calls++;
+      totals.prompt_tokens += usage.prompt_tokens;
+      totals.completion_tokens += usage.completion_tokens;
+      totals.total_tokens += usage.total_tokens;
+      totals.estimated_cost_usd += cost;
+    }
+  }
+
+  public isBudgetExceeded(): boolean {
+    const { max_tokens, max_cost_usd } = this.budget;
+    return (max_tokens !== undefined && this.total.total_tokens >= max_tokens)
+      || (max_cost_usd !== undefined && this.total.estimated_cost_usd >= max_cost_usd)
+      || this.isCostUnknown();
+  }
+
+  public recordSkipped(featureName: string, stage: LLMStage): void {
+    this.skippedCalls++;
+    if (stage === 'screening') {
+      this.skippedFeatures.add(featureName);
+    }
+  }
+
+  public getSummary(): UsageSummary {
+    const round = (totals: UsageTotals): UsageTotals => ({
+      ...totals,
+      estimated_cost_usd: Math.round(totals.estimated_cost_usd * 1e6) / 1e6
+    });
+    const roundAll = (bucket: { [key: string]: UsageTotals }) =>
+      Object.fromEntries(Object.entries(bucket).map(([key, totals]) => [key, round(totals)]));
+
+    return {
+      total: round(this.total),
+      by_stage: roundAll(this.byStage),
+      by_feature: roundAll(this.byFeature),
+      by_law: roundAll(this.byLaw),
+      by_model: roundAll(this.byModel),
+      unpriced_models: [...this.unpricedModels],
+      budget: {
+        max_tokens: this.budget.max_tokens,
+        max_cost_usd: this.budget.max_cost_usd,
+        on_exceed: this.budget.on_exceed,
+        exceeded: this.isBudgetExceeded(),
+        cost_unknown: this.isCostUnknown(),
+        skipped_calls: this.skippedCalls,
+        skipped_features: [...this.skippedFeatures]
+      }
+    };
+  }
+}
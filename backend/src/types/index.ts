@@ -1,8 +1,48 @@
+/**
+ * One provision (a row of laws.csv) together with the law it belongs to
+ */
 export interface Law {
+  // Provision index, unique across all laws
   index: string;
   law_description: string;
   law_title: string;
   'country-region': string;
+  // Stable id of the law (title + jurisdiction) the provision belongs to
+  law_id: string;
+}
+
+export interface Provision {
+  index: string;
+  text: string;
+}
+
+/**
+ * A law and its provisions
+ */
+export interface LawRecord {
+  id: string;
+  title: string;
+  jurisdiction: string;
+  provisions: Provision[];
+}
+
+// A provision as stored in laws.csv, before its law id is assigned
+export type LawInput = Omit<Law, 'law_id'>;
+
+/**
+ * A law to create or update. Provisions, when given, replace the law's
+ * provisions.
+ */
+export interface LawRequest {
+  title: string;
+  jurisdiction: string;
+  provisions?: Provision[];
+}
+
+export interface LawUpsertReport {
+  created: number;
+  updated: number;
+  unchanged: number;
 }
 
 export interface Feature {
@@ -10,24 +50,260 @@ export interface Feature {
   feature_description: string;
 }
 
+export interface CSVRowError {
+  // Record number, counting from 1 after the header
+  row: number;
+  message: string;
+}
+
+export interface CSVLoadReport {
+  file: string;
+  // Records read, including skipped ones
+  rows: number;
+  loaded: number;
+  errors: CSVRowError[];
+}
+
 export interface ComplianceResult {
   feature_name: string;
+  feature_description: string;
+  law_id: string;
   law_title: string;
+  // The provision assessed; law_description is its text
+  provision_index: string;
   law_description: string;
   compliance_status: 'compliant' | 'non-compliant' | 'requires_review';
   reasoning: string;
   recommendations: string[];
+  // Calibrated probability (0-1) that the verdict is right; 0 when no verdict was obtained
+  confidence: number;
+  // Confidence the model stated, before calibration against reviewer corrections
+  raw_confidence?: number;
+  // The model's verdict when low confidence sent the result to review instead
+  abstained_status?: ComplianceStatus;
+  // Passages of the feature description behind the verdict, verified to appear in it
+  evidence?: EvidenceSpan[];
+  // Quotes the model gave that were not found in the feature description
+  rejected_evidence?: number;
+  cached?: boolean;
+  // Glossary terms from the feature description whose definitions were given to the model
+  expanded_terms?: GlossaryExpansion[];
+  // Prompt template version that produced the verdict, e.g. "assessment@2"
+  prompt_version?: string;
+  // True when no schema-valid answer was obtained, as opposed to a genuine requires_review verdict
+  parse_failed?: boolean;
+  repair_attempts?: number;
+  // Ensemble mode: every member's verdict, and whether they disagreed
+  ensemble?: EnsembleOutcome;
+  contested?: boolean;
+  // Deterministic rules that matched this feature and provision
+  rule_hits?: RuleHit[];
+  // The model's verdict when a rule set the status instead
+  model_status?: ComplianceStatus;
+  // Instruction-like content in the feature or its corrections; such results always go to review
+  injection_findings?: InjectionFinding[];
+  // The verdict before the result was sent to review for possible prompt injection
+  flagged_status?: ComplianceStatus;
+}
+
+export type ComplianceStatus = ComplianceResult['compliance_status'];
+
+export type InjectionSource = 'feature_name' | 'feature_description' | 'correction';
+
+export interface InjectionFinding {
+  source: InjectionSource;
+  // Detector pattern that matched, e.g. instruction_override
+  rule: string;
+  excerpt: string;
+}
+
+// Which feature text a rule condition looks at; 'text' is the name and description together
+export type RuleField = 'feature_name' | 'feature_description' | 'text';
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  // Whole-word, case-insensitive; match 'any' (default) or 'all' of the keywords
+  | { keywords: string[]; match?: 'any' | 'all'; field?: RuleField }
+  // Case-insensitive regular expression
+  | { pattern: string; field?: RuleField };
+
+export interface RuleEffect {
+  // Force the provision relevant (or irrelevant) without asking the screening model
+  relevant?: boolean;
+  // Set the verdict whatever the model says
+  status?: ComplianceStatus;
+  reasoning?: string;
+  recommendations?: string[];
+}
+
+export interface ComplianceRule {
+  id: string;
+  description?: string;
+  // Law ids or titles the rule applies to
+  laws: string[];
+  // Provision indexes within those laws; all of them when unset
+  provisions?: string[];
+  when: RuleCondition;
+  then: RuleEffect;
+}
+
+export interface RuleHit {
+  rule_id: string;
+  description?: string;
+  // Keywords and patterns that matched
+  matched: string[];
+  relevant?: boolean;
+  status?: ComplianceStatus;
+}
+
+// Evidence as the model states it
+export interface EvidenceClaim {
+  feature_quote: string;
+  law_quote: string;
+}
+
+export interface EvidenceSpan {
+  // Text of feature_description[start, end)
+  quote: string;
+  start: number;
+  end: number;
+  // Wording of the provision the passage relates to, as law_description[law_start, law_end)
+  law_quote?: string;
+  law_start?: number;
+  law_end?: number;
+}
+
+// majority: most common status (ties go to review); unanimous: any disagreement
+// goes to review; strictest: the most severe status any member returned
+export type EnsembleVoting = 'majority' | 'unanimous' | 'strictest';
+
+export interface EnsembleVote {
+  // provider/model, with a sample number when a model is sampled more than once
+  member: string;
+  compliance_status: ComplianceStatus;
+  reasoning: string;
+  recommendations: string[];
+  // As stated by the member; 0 for failed members
+  confidence: number;
+  evidence?: EvidenceClaim[];
+  // The member gave no usable answer; its vote is requires_review
+  failed?: boolean;
+}
+
+export interface EnsembleOutcome {
+  voting: EnsembleVoting;
+  // Status the vote produced; contested results are still sent to review
+  voted_status: ComplianceStatus;
+  votes: EnsembleVote[];
+}
+
+export type AssessmentMode = 'single' | 'batched';
+
+// llm: model screens every law; prefilter: model screens a lexical shortlist;
+// offline: the lexical shortlist is the screening result
+export type ScreeningMode = 'llm' | 'prefilter' | 'offline';
+
+export interface GlossaryExpansion {
+  term: string;
+  definition: string;
+}
+
+export type GlossaryScope = 'global' | 'team' | 'jurisdiction';
+
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  definition: string;
+  scope: GlossaryScope;
+  // Team name or jurisdiction for non-global entries
+  scope_value?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GlossaryEntryRequest {
+  term: string;
+  definition: string;
+  scope?: GlossaryScope;
+  scope_value?: string;
+}
+
+// Context used to pick team / jurisdiction definitions over global ones
+export interface GlossaryContext {
+  team?: string;
+  jurisdiction?: string;
+}
+
+export interface FeatureWarning {
+  type: 'undefined_term';
+  term: string;
+  message: string;
 }
 
 export interface ComplianceCheckRequest {
   features?: string[];
+  // Law ids or titles
   laws?: string[];
+  // Provision indexes
+  provisions?: string[];
   include_abbreviations?: boolean;
   include_corrections?: boolean;
+  // Team whose glossary definitions win over jurisdiction and global ones
+  team?: string;
+  // 'batched' assesses a feature against several provisions per model call
+  assessment_mode?: AssessmentMode;
+  screening_mode?: ScreeningMode;
+  use_cache?: boolean;
+  budget?: RunBudget;
+  // Assess every pair with each ensemble member (ASSESSMENT_ENSEMBLE_* settings)
+  ensemble?: boolean;
+  ensemble_voting?: EnsembleVoting;
+  // Verdicts with a lower calibrated confidence go to review (CONFIDENCE_ABSTAIN_THRESHOLD)
+  abstention_threshold?: number;
+}
+
+export interface ProvisionScreening {
+  law_id: string;
+  law_title: string;
+  'country-region': string;
+  provision_index: string;
+  relevant: boolean;
+  // 0 (no connection) to 1 (clearly applies)
+  relevance_score: number;
+  rationale: string;
+  // Who decided: the screening model, the lexical index (offline mode, or
+  // provisions the prefilter kept from the model) or a deterministic rule
+  source: 'model' | 'lexical' | 'rule';
+  rule_hits?: RuleHit[];
+  // No decision was made for this provision (screening failed or the response left it out)
+  unscreened?: boolean;
+}
+
+// partial: some provisions were screened, others were not
+export type ScreeningOutcome = 'succeeded' | 'failed' | 'partial';
+
+export interface FeatureScreening {
+  feature_name: string;
+  outcome: ScreeningOutcome;
+  // Indexes of the relevant provisions
+  relevant_provisions: string[];
+  // Every provision considered, relevant or not
+  provisions: ProvisionScreening[];
+  prompt_version?: string;
+  // Why screening failed or was partial
+  error?: string;
+  // Instruction-like content in the feature; the model's exclusions are then not trusted
+  injection_findings?: InjectionFinding[];
 }
 
 export interface ComplianceCheckResponse {
+  // Id of the stored run, for GET /api/results/:id
+  run_id?: string;
   results: ComplianceResult[];
+  // Relevance decisions per feature, including the laws that were excluded
+  screening: FeatureScreening[];
   summary: {
     total_features: number;
     total_laws: number;
@@ -35,17 +311,101 @@ export interface ComplianceCheckResponse {
     compliant_count: number;
     non_compliant_count: number;
     review_required_count: number;
+    parse_failure_count: number;
+    // Combined over all features; anything but 'succeeded' means laws went unscreened
+    screening_outcome: ScreeningOutcome;
+    // Provisions excluded only because screening failed; counted as needing review
+    unscreened_laws: number;
+    // Ensemble results where the members disagreed; also counted as needing review
+    contested_count: number;
+    // Verdicts sent to review because their confidence was below the abstention threshold
+    abstained_count: number;
+    // Results sent to review because the feature or its corrections looked like a prompt injection
+    flagged_count: number;
     overall_risk_score: number;
+    risk: RiskBreakdown;
+    usage?: UsageSummary;
+    redaction?: RedactionReport;
   };
   timestamp: string;
 }
 
+export interface StoredRun {
+  id: string;
+  created_at: string;
+  response: ComplianceCheckResponse;
+}
+
+export interface StoredRunSummary {
+  id: string;
+  created_at: string;
+  features: string[];
+  total_features: number;
+  non_compliant_count: number;
+  review_required_count: number;
+  overall_risk_score: number;
+}
+
+export interface StorageImportReport {
+  laws: number;
+  features: number;
+  feedback: number;
+  results: number;
+  // CSV rows and entries that were not imported, with the reason
+  errors: string[];
+}
+
+// Parse failures and unscreened provisions are scored separately from review verdicts
+export type RiskOutcome = ComplianceStatus | 'parse_failed' | 'unscreened';
+
+export interface RiskLawProfile {
+  // Key into RiskWeights.severity
+  severity?: string;
+  // Extra multiplier for the law's penalties, 1 when unset
+  penalty?: number;
+}
+
+export interface RiskWeights {
+  // Points (0-100) for each outcome
+  status: Record<RiskOutcome, number>;
+  // Multiplier by severity level
+  severity: Record<string, number>;
+  // Severity level of laws with no profile
+  default_severity: string;
+  // Keyed by law id or law title
+  laws: Record<string, RiskLawProfile>;
+  // Multiplier by country-region, 1 when unset
+  jurisdictions: Record<string, number>;
+}
+
+export interface RiskGroupScore {
+  // Feature name or jurisdiction
+  name: string;
+  score: number;
+  // Scored provisions, including unscreened ones
+  items: number;
+  non_compliant_count: number;
+  // Review verdicts, parse failures and unscreened provisions
+  review_count: number;
+}
+
+export interface RiskBreakdown {
+  overall_score: number;
+  by_feature: RiskGroupScore[];
+  by_jurisdiction: RiskGroupScore[];
+}
+
 export interface FeedbackRequest {
   feature_name: string;
   law_title: string;
   feedback_type: 'correction' | 'suggestion' | 'question';
   message: string;
   user_email?: string;
+  // The verdict being reviewed and the status the reviewer says is right;
+  // used to calibrate confidence scores
+  original_status?: ComplianceStatus;
+  original_confidence?: number;
+  corrected_status?: ComplianceStatus;
 }
 
 export interface FeedbackResponse {
@@ -67,4 +427,195 @@ export interface Correction {
   user_email?: string;
   timestamp: string;
   status: 'pending' | 'reviewed' | 'implemented';
+  original_status?: ComplianceStatus;
+  original_confidence?: number;
+  corrected_status?: ComplianceStatus;
+}
+
+export interface CalibrationBin {
+  // Raw confidence range [lower, upper)
+  lower: number;
+  upper: number;
+  samples: number;
+  correct: number;
+  // Confidence reported for raw scores in this bin
+  calibrated: number;
+}
+
+export interface CalibrationSummary {
+  // Reviewed verdicts with a stated confidence
+  samples: number;
+  // Weight of the model's own score against observed accuracy, in samples
+  prior_weight: number;
+  bins: CalibrationBin[];
+}
+
+export type LLMStage = 'screening' | 'assessment';
+
+export type LLMProviderName = 'openrouter' | 'openai' | 'gemini';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  structuredOutput?: boolean;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: Array<string | number>;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minLength?: number;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface LLMResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  // Requests structured output on providers that support it
+  response_schema?: LLMResponseSchema;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+  raw?: unknown;
+}
+
+export interface AssessmentCacheKeyInput {
+  feature_description: string;
+  law_description: string;
+  corrections: string[];
+  prompt_version: string;
+  model: string;
+  // "term: definition" lines injected into the prompt, when any
+  glossary?: string[];
+}
+
+export interface AssessmentCacheEntry {
+  key: string;
+  feature_name: string;
+  law_title: string;
+  prompt_version: string;
+  model: string;
+  result: ComplianceResult;
+  created_at: string;
+  last_hit_at?: string;
+  hits: number;
+}
+
+export interface AssessmentCacheStats {
+  path: string;
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+export interface ModelPricing {
+  input_per_million: number;
+  output_per_million: number;
+}
+
+export interface RunBudget {
+  max_tokens?: number;
+  max_cost_usd?: number;
+  on_exceed?: 'abort' | 'degrade';
+}
+
+export interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated_cost_usd: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  by_stage: { [stage: string]: UsageTotals };
+  by_feature: { [featureName: string]: UsageTotals };
+  by_law: { [lawTitle: string]: UsageTotals };
+  by_model: { [model: string]: UsageTotals };
+  unpriced_models: string[];
+  budget: {
+    max_tokens?: number;
+    max_cost_usd?: number;
+    on_exceed: 'abort' | 'degrade';
+    exceeded: boolean;
+    // A cost budget is set but some usage had no price; this counts as exceeded
+    cost_unknown: boolean;
+    skipped_calls: number;
+    skipped_features: string[];
+  };
+}
+
+export type RedactionType = 'email' | 'phone' | 'name' | 'api_key' | 'hostname';
+
+export interface RedactedValue {
+  type: RedactionType;
+  // First characters only; the full value never leaves the redactor
+  masked: string;
+  occurrences: number;
+}
+
+export interface RedactionReport {
+  enabled: boolean;
+  total: number;
+  // Model calls that had something redacted
+  calls: number;
+  by_type: Partial<Record<RedactionType, number>>;
+  by_stage: Partial<Record<LLMStage, number>>;
+  values: RedactedValue[];
+}
+
+export type PromptTemplateName = 'screening' | 'assessment' | 'assessment-batch';
+
+export interface PromptTemplateVersion {
+  version: number;
+  system: string;
+  user: string;
+  description?: string;
+  created_at: string;
+  // Why a built-in version can no longer be activated, e.g. its answers no longer pass the schema
+  retired?: string;
+}
+
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  variables: string[];
+  active_version: number;
+  versions: PromptTemplateVersion[];
+}
+
+export interface CreatePromptVersionRequest {
+  system: string;
+  user: string;
+  description?: string;
+  activate?: boolean;
 }
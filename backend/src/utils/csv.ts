@@ -0,0 +1,125 @@
+import fs from 'fs';
+import csv from 'csv-parser';
+import { CSVLoadReport, CSVRowError } from '../types';
+
+export interface CSVColumn {
+  // Key the value is stored under, and the header written for new files
+  key: string;
+  // Other headers accepted for the column, e.g. "jurisdiction" for "country-region"
+  aliases?: string[];
+  required?: boolean;
+}
+
+export interface CSVReadResult {
+  // Header of each column in file order, with the column it maps to
+  headers: Array<{ name: string; key?: string }>;
+  rows: Array<Record<string, string>>;
+  report: CSVLoadReport;
+}
+
+// "Country-Region", "country_region" and "country region" are the same header
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Stream an RFC 4180 CSV file (quoted fields with commas, doubled quotes and
+ * line breaks; optional UTF-8 BOM) and map each row to `columns` by header
+ * name. Rows with missing required values or more values than headers are
+ * skipped and listed in the report; a missing required header fails the
+ * whole file.
+ */
+export async function readCSV(filePath: string, columns: CSVColumn[]): Promise<CSVReadResult> {
+  const byHeader = new Map<string, string>();
+  for (const column of columns) {
+    [column.key, ...(column.aliases || [])].forEach(name => byHeader.set(normalizeHeader(name), column.key));
+  }
+
+  const headers: CSVReadResult['headers'] = [];
+  const rows: Array<Record<string, string>> = [];
+  const errors: CSVRowError[] = [];
+  let records = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const stream = fs.createReadStream(filePath, 'utf8');
+    const parser = csv({
+      mapHeaders: ({ header, index }) => {
+        headers[index] = { name: header.trim(), key: byHeader.get(normalizeHeader(header)) };
+        // Unknown columns are dropped
+        return headers[index].key ?? null;
+      }
+    });
+    const fail = (error: Error) => {
+      stream.destroy();
+      reject(error);
+    };
+
+    stream.on('error', fail);
+    parser.on('error', fail);
+    parser.on('headers', () => {
+      const missing = columns.filter(column => column.required && !headers.some(header => header.key === column.key));
+      if (missing.length > 0) {
+        fail(new Error(`${filePath} has no ${missing.map(column => column.key).join(', ')} column`));
+      }
+    });
+    parser.on('data', (record: Record<string, string>) => {
+      records++;
+      const values = Object.entries(record);
+      if (values.every(([, value]) => !value.trim())) {
+        return;
+      }
+      // csv-parser names values beyond the last header _<index>
+      const extra = values.filter(([key]) => key.startsWith('_')).length;
+      if (extra > 0) {
+        errors.push({ row: records, message: `${extra} more value(s) than the header has columns; quote fields that contain commas` });
+        return;
+      }
+      const row: Record<string, string> = {};
+      for (const [key, value] of values) {
+        row[key] = value.replace(/\r\n?/g, '\n').trim();
+      }
+      const missing = columns.filter(column => column.required && !row[column.key]);
+      if (missing.length > 0) {
+        errors.push({ row: records, message: `missing ${missing.map(column => column.key).join(', ')}` });
+        return;
+      }
+      rows.push(row);
+    });
+    parser.on('end', resolve);
+    stream.pipe(parser);
+  });
+
+  return { headers, rows, report: { file: filePath, rows: records, loaded: rows.length, errors } };
+}
+
+const NEEDS_QUOTES = /[",\r\n]|^\s|\s$/;
+
+/**
+ * One CSV record, quoting fields that contain commas, quotes, line breaks or
+ * surrounding whitespace and doubling embedded quotes
+ */
+export function formatCSVRow(values: string[]): string {
+  return values.map(value => NEEDS_QUOTES.test(value) ? `"${value.replace(/"/g, '""')}"` : value).join(',');
+}
+
+/**
+ * Write a whole CSV file: the header, then one CRLF-terminated record per row
+ */
+export function writeCSV(filePath: string, headers: string[], rows: string[][]): void {
+  fs.writeFileSync(filePath, [headers, ...rows].map(row => `${formatCSVRow(row)}\r\n`).join(''), 'utf8');
+}
+
+/**
+ * Append a record to a CSV file, writing the header first when the file does
+ * not exist yet. Records end in CRLF as RFC 4180 specifies.
+ */
+export function appendCSVRow(filePath: string, headers: string[], values: string[]): void {
+  if (!fs.existsSync(filePath) || fs.statSync(filePath).size === 0) {
+    fs.writeFileSync(filePath, `${formatCSVRow(headers)}\r\n${formatCSVRow(values)}\r\n`, 'utf8');
+    return;
+  }
+  // Files edited by hand often lack the final line break
+  const fd = fs.openSync(filePath, 'r');
+  const last = Buffer.alloc(1);
+  fs.readSync(fd, last, 0, 1, fs.statSync(filePath).size - 1);
+  fs.closeSync(fd);
+  fs.appendFileSync(filePath, `${last.toString() === '\n' ? '' : '\r\n'}${formatCSVRow(values)}\r\n`, 'utf8');
+}
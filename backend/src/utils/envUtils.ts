@@ -0,0 +1,11 @@
+/**
+ * Read a numeric environment variable, falling back when unset or invalid
+ */
+export function getNumberEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
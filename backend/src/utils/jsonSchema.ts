@@ -0,0 +1,111 @@
+import { JsonSchema } from '../types';
+
+/**
+ * Validate a value against the subset of JSON Schema used for model output
+ * (type, enum, required, properties, additionalProperties, items, minLength,
+ * minItems, minimum, maximum).
+ * @returns Human-readable validation errors; empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, at: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${at} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')} (got ${JSON.stringify(value)})`);
+    return errors;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${at} must be an object`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${at}.${key} is required`);
+        }
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[key];
+        if (childSchema) {
+          if (child !== undefined && child !== null) {
+            errors.push(...validateJsonSchema(child, childSchema, `${at}.${key}`));
+          }
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${at}.${key} is not allowed`);
+        }
+      }
+      break;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${at} must be an array`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${at} must contain at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${at}[${index}]`)));
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${at} must be a string`);
+      } else if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${at} must not be empty`);
+      }
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        errors.push(`${at} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`);
+      } else {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+          errors.push(`${at} must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+          errors.push(`${at} must be <= ${schema.maximum}`);
+        }
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${at} must be a boolean`);
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Pull the JSON object out of a model response, tolerating markdown fences
+ * and surrounding prose
+ * @returns The parsed value, or undefined when no JSON could be parsed
+ */
+export function extractJson(response: string): unknown {
+  let cleanResponse = response.trim();
+  if (cleanResponse.startsWith('```json')) {
+    cleanResponse = cleanResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleanResponse.startsWith('```')) {
+    cleanResponse = cleanResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+
+  try {
+    return JSON.parse(cleanResponse);
+  } catch {
+    // Fall through to extracting the outermost object
+  }
+
+  const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch {
+    return undefined;
+  }
+}
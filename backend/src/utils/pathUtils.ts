@@ -7,7 +7,7 @@ import path from 'path';
  */
 export function getCSVPath(filename: string): string {
   // Check if environment variable is set
-  const envKey = `${filename.toUpperCase().replace('.csv', '')}_CSV_PATH`;
+  const envKey = `${filename.replace(/\.csv$/i, '').toUpperCase()}_CSV_PATH`;
   if (process.env[envKey]) {
     return path.resolve(process.env[envKey]!);
   }
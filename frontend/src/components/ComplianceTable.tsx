@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { ComplianceResult, ComplianceSummary } from '../types/api';
-import { CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronRight, MessageSquare, Scale, Target, AlertTriangle } from 'lucide-react';
+import { ComplianceResult, ComplianceSummary, EvidenceSpan, RiskGroupScore } from '../types/api';
+import { CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronRight, MessageSquare, Scale, Target, AlertTriangle, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 
 interface ComplianceTableProps {
   results: ComplianceResult[];
@@ -8,8 +8,80 @@ interface ComplianceTableProps {
   onFeedbackClick: (result: ComplianceResult) => void;
 }
 
+const riskColor = (score: number) =>
+  score >= 70 ? 'text-danger-600' : score >= 40 ? 'text-warning-600' : 'text-success-600';
+
+// One row per feature or jurisdiction in the risk breakdown
+const RiskGroupList: React.FC<{ title: string; groups: RiskGroupScore[] }> = ({ title, groups }) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+    <ul className="space-y-1">
+      {groups.map(group => (
+        <li key={group.name} className="flex items-center justify-between text-sm">
+          <span className="text-gray-700">{group.name}</span>
+          <span className="text-gray-500">
+            {group.non_compliant_count} non-compliant, {group.review_count} review ·{' '}
+            <span className={`font-semibold ${riskColor(group.score)}`}>{group.score}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Feature text with the evidence spans marked; overlapping spans are merged
+const HighlightedText: React.FC<{ text: string; spans: EvidenceSpan[] }> = ({ text, spans }) => {
+  const merged = [...spans]
+    .sort((a, b) => a.start - b.start)
+    .reduce<{ start: number; end: number }[]>((ranges, span) => {
+      const last = ranges[ranges.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        ranges.push({ start: span.start, end: span.end });
+      }
+      return ranges;
+    }, []);
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  merged.forEach((range) => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <mark key={range.start} className="bg-yellow-200 rounded px-0.5">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  parts.push(text.slice(position));
+
+  return <p className="text-gray-700 text-sm leading-relaxed whitespace-pre-line">{parts}</p>;
+};
+
 const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onFeedbackClick }) => {
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [confidenceSort, setConfidenceSort] = useState<'none' | 'desc' | 'asc'>('none');
+
+  // Rows keep their original index so expanded rows survive re-sorting
+  const rows = results.map((result, index) => ({ result, index }));
+  if (confidenceSort !== 'none') {
+    rows.sort((a, b) => confidenceSort === 'asc'
+      ? a.result.confidence - b.result.confidence
+      : b.result.confidence - a.result.confidence);
+  }
+
+  const cycleConfidenceSort = () => {
+    setConfidenceSort(confidenceSort === 'none' ? 'desc' : confidenceSort === 'desc' ? 'asc' : 'none');
+  };
+
+  const getConfidenceColor = (confidence: number) => {
+    if (confidence >= 0.8) return 'bg-success-500';
+    if (confidence >= 0.5) return 'bg-warning-500';
+    return 'bg-danger-500';
+  };
 
   const toggleRow = (resultId: string) => {
     const newExpanded = new Set(expandedRows);
@@ -106,6 +178,15 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
             <div>
               <p className="text-sm font-medium text-gray-600">Review Required</p>
               <p className="text-2xl font-bold text-warning-600">{summary.review_required_count}</p>
+              {!!summary.parse_failure_count && (
+                <p className="text-xs text-gray-500">+{summary.parse_failure_count} unparseable responses</p>
+              )}
+              {!!summary.abstained_count && (
+                <p className="text-xs text-gray-500">incl. {summary.abstained_count} low confidence</p>
+              )}
+              {!!summary.flagged_count && (
+                <p className="text-xs text-gray-500">incl. {summary.flagged_count} possible prompt injection</p>
+              )}
             </div>
             <div className="p-2 bg-warning-100 rounded-lg">
               <AlertTriangle className="w-6 h-6 text-warning-600" />
@@ -114,13 +195,39 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
         </div>
       </div>
 
+      {/* Risk Breakdown */}
+      {summary.risk && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Risk Score</h3>
+            <p className={`text-2xl font-bold ${riskColor(summary.risk.overall_score)}`}>
+              {summary.risk.overall_score}<span className="text-sm text-gray-500">/100</span>
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <RiskGroupList title="By Feature" groups={summary.risk.by_feature} />
+            <RiskGroupList title="By Jurisdiction" groups={summary.risk.by_jurisdiction} />
+          </div>
+        </div>
+      )}
+
       {/* Results Table */}
       <div className="card">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-semibold text-gray-900">Compliance Results</h3>
-          <p className="text-sm text-gray-500">
-            {results.length} feature-law combinations analyzed
-          </p>
+          <div className="text-right">
+            <p className="text-sm text-gray-500">
+              {results.length} feature-law combinations analyzed
+            </p>
+            {!!summary.redaction?.total && (
+              <p
+                className="text-xs text-gray-500"
+                title={Object.entries(summary.redaction.by_type).map(([type, count]) => `${type.replace('_', ' ')}: ${count}`).join(', ')}
+              >
+                {summary.redaction.total} personal or secret values redacted before model calls
+              </p>
+            )}
+          </div>
         </div>
 
         <div className="overflow-x-auto">
@@ -130,11 +237,23 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
                 <th className="text-left py-3 px-4 font-medium text-gray-700">Status</th>
                 <th className="text-left py-3 px-4 font-medium text-gray-700">Feature</th>
                 <th className="text-left py-3 px-4 font-medium text-gray-700">Law</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">
+                  <button
+                    onClick={cycleConfidenceSort}
+                    className="flex items-center space-x-1 hover:text-gray-900"
+                    title="Sort by confidence"
+                  >
+                    <span>Confidence</span>
+                    {confidenceSort === 'desc' ? <ArrowDown className="w-4 h-4" /> :
+                      confidenceSort === 'asc' ? <ArrowUp className="w-4 h-4" /> :
+                      <ArrowUpDown className="w-4 h-4" />}
+                  </button>
+                </th>
                 <th className="text-left py-3 px-4 font-medium text-gray-700">Actions</th>
               </tr>
             </thead>
             <tbody>
-              {results.map((result, index) => {
+              {rows.map(({ result, index }) => {
                 const resultId = `${result.feature_name}-${result.law_title}-${index}`;
                 const isExpanded = expandedRows.has(resultId);
                 
@@ -147,6 +266,27 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
                         <div className="flex items-center space-x-2">
                           {getStatusIcon(result.compliance_status)}
                           {getStatusBadge(result.compliance_status)}
+                          {result.parse_failed && (
+                            <span className="badge-info" title="The model did not return a valid assessment">Unparsed</span>
+                          )}
+                          {result.contested && (
+                            <span className="badge-danger" title="Ensemble members disagreed">Contested</span>
+                          )}
+                          {result.abstained_status && (
+                            <span className="badge-info" title={`The model said ${result.abstained_status.replace('_', ' ')} with low confidence`}>
+                              Low Confidence
+                            </span>
+                          )}
+                          {result.injection_findings && (
+                            <span className="badge-danger" title="The feature or its corrections contain instruction-like text">
+                              Possible Injection
+                            </span>
+                          )}
+                          {result.rule_hits?.some(hit => hit.status) && (
+                            <span className="badge-info" title={result.model_status ? `The model said ${result.model_status.replace('_', ' ')}` : 'Set by a rule'}>
+                              Rule
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="py-4 px-4">
@@ -156,10 +296,29 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
                       </td>
                       <td className="py-4 px-4">
                         <div>
-                          <p className="font-medium text-gray-900">{result.law_title}</p>
+                          <p className="font-medium text-gray-900">
+                            {result.law_title}
+                            {result.provision_index && (
+                              <span className="ml-1 text-xs text-gray-500">#{result.provision_index}</span>
+                            )}
+                          </p>
                           <p className="text-sm text-gray-500">{result.law_description}</p>
                         </div>
                       </td>
+                      <td className="py-4 px-4">
+                        <div className="flex items-center space-x-2">
+                          <div className="w-16 h-2 bg-gray-200 rounded-full">
+                            <div
+                              className={`h-2 rounded-full ${getConfidenceColor(result.confidence)}`}
+                              style={{ width: `${Math.round(result.confidence * 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-sm text-gray-700">{Math.round(result.confidence * 100)}%</span>
+                        </div>
+                        {result.raw_confidence !== undefined && result.raw_confidence !== result.confidence && (
+                          <p className="text-xs text-gray-500">model said {Math.round(result.raw_confidence * 100)}%</p>
+                        )}
+                      </td>
                       <td className="py-4 px-4">
                         <div className="flex items-center space-x-2">
                           <button
@@ -186,7 +345,7 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
                                          {/* Expanded Details Row */}
                      {isExpanded && (
                        <tr className="bg-blue-50 border-b border-gray-100">
-                         <td colSpan={4} className="py-4 px-4">
+                         <td colSpan={5} className="py-4 px-4">
                           <div className="space-y-4">
                             <div>
                               <h4 className="font-medium text-gray-900 mb-2">Reasoning</h4>
@@ -195,6 +354,28 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
                               </p>
                             </div>
                             
+                            {result.evidence && result.evidence.length > 0 && (
+                              <div>
+                                <h4 className="font-medium text-gray-900 mb-2">Evidence</h4>
+                                <HighlightedText text={result.feature_description} spans={result.evidence} />
+                                <ul className="mt-2 space-y-1">
+                                  {result.evidence.map((span) => (
+                                    <li key={span.start} className="text-gray-700 text-sm">
+                                      <span className="italic">"{span.quote}"</span>
+                                      {span.law_quote && (
+                                        <span className="text-gray-500"> relates to "{span.law_quote}"</span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                                {!!result.rejected_evidence && (
+                                  <p className="mt-1 text-xs text-gray-500">
+                                    {result.rejected_evidence} quote(s) not found in the feature description were discarded
+                                  </p>
+                                )}
+                              </div>
+                            )}
+
                             {result.recommendations.length > 0 && (
                               <div>
                                 <h4 className="font-medium text-gray-900 mb-2">Recommendations</h4>
@@ -207,11 +388,80 @@ const ComplianceTable: React.FC<ComplianceTableProps> = ({ results, summary, onF
                                 </ul>
                               </div>
                             )}
+
+                            {result.injection_findings && result.injection_findings.length > 0 && (
+                              <div>
+                                <h4 className="font-medium text-gray-900 mb-2">Possible Prompt Injection</h4>
+                                <ul className="space-y-1">
+                                  {result.injection_findings.map((finding, findingIndex) => (
+                                    <li key={findingIndex} className="text-gray-700 text-sm">
+                                      <span className="font-medium">{finding.source.replace('_', ' ')}</span>: "{finding.excerpt}"
+                                      <span className="text-gray-500"> ({finding.rule.replace('_', ' ')})</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                                {result.flagged_status && (
+                                  <p className="mt-1 text-xs text-gray-500">The model answered {result.flagged_status.replace('_', ' ')}</p>
+                                )}
+                              </div>
+                            )}
+
+                            {result.rule_hits && result.rule_hits.length > 0 && (
+                              <div>
+                                <h4 className="font-medium text-gray-900 mb-2">Rule Hits</h4>
+                                <ul className="space-y-1">
+                                  {result.rule_hits.map((hit) => (
+                                    <li key={hit.rule_id} className="text-gray-700 text-sm">
+                                      <span className="font-medium">{hit.rule_id}</span>
+                                      {hit.description && <span>: {hit.description}</span>}
+                                      {hit.status && <span className="ml-2">{getStatusBadge(hit.status)}</span>}
+                                      {hit.matched.length > 0 && (
+                                        <span className="text-gray-500"> (matched {hit.matched.join(', ')})</span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+
+                            {result.ensemble && (
+                              <div>
+                                <h4 className="font-medium text-gray-900 mb-2">
+                                  Ensemble Votes ({result.ensemble.voting}, voted {result.ensemble.voted_status})
+                                </h4>
+                                <ul className="space-y-2">
+                                  {result.ensemble.votes.map((vote, voteIndex) => (
+                                    <li key={`${vote.member}-${voteIndex}`} className="text-gray-700 text-sm">
+                                      <div className="flex items-center space-x-2">
+                                        <span className="font-medium">{vote.member}</span>
+                                        {getStatusBadge(vote.compliance_status)}
+                                        {vote.failed && <span className="badge-info">Failed</span>}
+                                      </div>
+                                      <p className="mt-1">{vote.reasoning}</p>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+
+                            {result.expanded_terms && result.expanded_terms.length > 0 && (
+                              <div>
+                                <h4 className="font-medium text-gray-900 mb-2">Expanded Terms</h4>
+                                <ul className="space-y-1">
+                                  {result.expanded_terms.map(({ term, definition }) => (
+                                    <li key={term} className="text-gray-700 text-sm">
+                                      <span className="font-medium">{term}</span>: {definition}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
                             
                             <div className="flex items-center justify-between pt-2 border-t border-gray-200">
                               <div className="flex items-center space-x-4 text-sm text-gray-500">
                                 <span>Feature: {result.feature_name}</span>
                                 <span>Law: {result.law_title}</span>
+                                {result.prompt_version && <span>Prompt: {result.prompt_version}</span>}
                               </div>
                               <button
                                 onClick={() => onFeedbackClick(result)}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { ComplianceResult, FeedbackRequest } from '../types/api';
+import { ComplianceResult, ComplianceStatus, FeedbackRequest } from '../types/api';
 import { X, Send, MessageSquare, AlertCircle, CheckCircle } from 'lucide-react';
 
 interface FeedbackChatboxProps {
@@ -17,6 +17,7 @@ const FeedbackChatbox: React.FC<FeedbackChatboxProps> = ({
 }) => {
   const [feedbackType, setFeedbackType] = useState<'correction' | 'suggestion' | 'question'>('correction');
   const [message, setMessage] = useState('');
+  const [correctedStatus, setCorrectedStatus] = useState<ComplianceStatus | ''>('');
   const [userEmail, setUserEmail] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
@@ -37,11 +38,18 @@ const FeedbackChatbox: React.FC<FeedbackChatboxProps> = ({
         message: message.trim(),
         user_email: userEmail.trim() || undefined
       };
+      // The model's own verdict and confidence, so the review can calibrate future scores
+      if (feedbackType === 'correction' && correctedStatus && result.raw_confidence !== undefined) {
+        feedback.original_status = result.abstained_status || result.compliance_status;
+        feedback.original_confidence = result.raw_confidence;
+        feedback.corrected_status = correctedStatus;
+      }
 
       await onSubmitFeedback(feedback);
       
       setSubmitStatus('success');
       setMessage('');
+      setCorrectedStatus('');
       
       // Auto-close after success
       setTimeout(() => {
@@ -61,6 +69,7 @@ const FeedbackChatbox: React.FC<FeedbackChatboxProps> = ({
     if (!isSubmitting) {
       onClose();
       setMessage('');
+      setCorrectedStatus('');
       setUserEmail('');
       setSubmitStatus('idle');
     }
@@ -103,6 +112,7 @@ const FeedbackChatbox: React.FC<FeedbackChatboxProps> = ({
                   {result.compliance_status.replace('_', ' ')}
                 </span>
               </p>
+              <p><span className="font-medium">Confidence:</span> {Math.round(result.confidence * 100)}%</p>
             </div>
           </div>
 
@@ -129,6 +139,27 @@ const FeedbackChatbox: React.FC<FeedbackChatboxProps> = ({
             </div>
           </div>
 
+          {/* Reviewed Status */}
+          {feedbackType === 'correction' && result.raw_confidence !== undefined && (
+            <div>
+              <label htmlFor="corrected-status" className="block text-sm font-medium text-gray-700 mb-2">
+                Correct Status
+              </label>
+              <select
+                id="corrected-status"
+                value={correctedStatus}
+                onChange={(e) => setCorrectedStatus(e.target.value as ComplianceStatus | '')}
+                className="input"
+                disabled={isSubmitting}
+              >
+                <option value="">Not specified</option>
+                <option value="compliant">Compliant</option>
+                <option value="non-compliant">Non-compliant</option>
+                <option value="requires_review">Requires review</option>
+              </select>
+            </div>
+          )}
+
           {/* Message Input */}
           <div>
             <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
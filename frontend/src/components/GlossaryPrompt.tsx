@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { FeatureWarning, GlossaryEntryRequest } from '../types/api';
+import { X, BookOpen, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface GlossaryPromptProps {
+  isOpen: boolean;
+  onClose: () => void;
+  warnings: FeatureWarning[];
+  onSaveDefinitions: (entries: GlossaryEntryRequest[]) => Promise<void>;
+}
+
+const GlossaryPrompt: React.FC<GlossaryPromptProps> = ({
+  isOpen,
+  onClose,
+  warnings,
+  onSaveDefinitions
+}) => {
+  const [definitions, setDefinitions] = useState<{ [term: string]: string }>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+
+  useEffect(() => {
+    setDefinitions({});
+    setSubmitStatus('idle');
+  }, [warnings]);
+
+  const filled = warnings.filter((warning) => definitions[warning.term]?.trim());
+
+  const handleSave = async () => {
+    if (filled.length === 0) return;
+
+    setIsSubmitting(true);
+    setSubmitStatus('idle');
+
+    try {
+      await onSaveDefinitions(filled.map((warning) => ({
+        term: warning.term,
+        definition: definitions[warning.term].trim()
+      })));
+
+      setSubmitStatus('success');
+      setTimeout(() => {
+        onClose();
+        setSubmitStatus('idle');
+      }, 1500);
+    } catch (error) {
+      setSubmitStatus('error');
+      console.error('Error saving glossary definitions:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || warnings.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <BookOpen className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Define Unknown Terms</h3>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="p-1 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            The feature description uses terms that are not in the glossary. Defining them
+            helps future compliance checks interpret the feature correctly.
+          </p>
+
+          {warnings.map((warning) => (
+            <div key={warning.term}>
+              <label htmlFor={`glossary-${warning.term}`} className="block text-sm font-medium text-gray-700 mb-2">
+                {warning.term}
+              </label>
+              <input
+                id={`glossary-${warning.term}`}
+                type="text"
+                value={definitions[warning.term] || ''}
+                onChange={(e) => setDefinitions({ ...definitions, [warning.term]: e.target.value })}
+                placeholder={`What does ${warning.term} mean?`}
+                className="input"
+                disabled={isSubmitting}
+              />
+            </div>
+          ))}
+
+          {submitStatus === 'success' && (
+            <div className="flex items-center space-x-2 p-3 bg-success-50 border border-success-200 rounded-lg">
+              <CheckCircle className="w-5 h-5 text-success-600" />
+              <span className="text-success-800 font-medium">Definitions saved to the glossary.</span>
+            </div>
+          )}
+
+          {submitStatus === 'error' && (
+            <div className="flex items-center space-x-2 p-3 bg-danger-50 border border-danger-200 rounded-lg">
+              <AlertCircle className="w-5 h-5 text-danger-600" />
+              <span className="text-danger-800 font-medium">Failed to save definitions. Please try again.</span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="btn btn-secondary"
+          >
+            Skip
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSubmitting || filled.length === 0}
+            className="btn btn-primary"
+          >
+            {isSubmitting ? 'Saving...' : 'Save Definitions'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPrompt;
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { LawRecord, LawRequest, Provision } from '../types/api';
+import { X, Scale, Plus, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface LawEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLawsChanged: () => void;
+}
+
+const emptyLaw = (jurisdiction = ''): LawRequest => ({
+  title: '',
+  jurisdiction,
+  provisions: [{ index: '', text: '' }]
+});
+
+const LawEditor: React.FC<LawEditorProps> = ({
+  isOpen,
+  onClose,
+  onLawsChanged
+}) => {
+  const [laws, setLaws] = useState<LawRecord[]>([]);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LawRequest>(emptyLaw());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string; details?: string[] } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadLaws();
+      loadRegions();
+      setStatus(null);
+    }
+  }, [isOpen]);
+
+  const loadLaws = async (): Promise<LawRecord[]> => {
+    try {
+      const response = await fetch('/api/laws?grouped=true');
+      const data = await response.json();
+      if (data.success) {
+        setLaws(data.data);
+        return data.data;
+      }
+    } catch (error) {
+      console.error('Error loading laws:', error);
+    }
+    return [];
+  };
+
+  const loadRegions = async () => {
+    try {
+      const response = await fetch('/api/regions');
+      const data = await response.json();
+      if (data.success) {
+        setRegions(data.data);
+      }
+    } catch (error) {
+      console.error('Error loading regions:', error);
+    }
+  };
+
+  const selectLaw = (law: LawRecord | null) => {
+    setSelectedId(law ? law.id : null);
+    setDraft(law
+      ? { title: law.title, jurisdiction: law.jurisdiction, provisions: law.provisions.map((p) => ({ ...p })) }
+      : emptyLaw(regions[0]));
+    setStatus(null);
+  };
+
+  const provisions = draft.provisions || [];
+
+  const updateProvision = (position: number, changes: Partial<Provision>) => {
+    setDraft({ ...draft, provisions: provisions.map((p, i) => (i === position ? { ...p, ...changes } : p)) });
+  };
+
+  const removeProvision = (position: number) => {
+    setDraft({ ...draft, provisions: provisions.filter((_, i) => i !== position) });
+  };
+
+  const send = async (url: string, method: string, body?: LawRequest) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!data.success) {
+      setStatus({ type: 'error', message: data.error || 'Failed to save law', details: data.errors });
+      return null;
+    }
+    return data;
+  };
+
+  const handleSave = async () => {
+    setIsSubmitting(true);
+    setStatus(null);
+
+    try {
+      const data = selectedId
+        ? await send(`/api/laws/${encodeURIComponent(selectedId)}`, 'PUT', draft)
+        : await send('/api/laws', 'POST', draft);
+      if (data) {
+        await loadLaws();
+        // A new law gets its id from the server
+        setSelectedId(data.data.id);
+        setStatus({ type: 'success', message: 'Law saved.' });
+        onLawsChanged();
+      }
+    } catch (error) {
+      setStatus({ type: 'error', message: 'Failed to save law. Please try again.' });
+      console.error('Error saving law:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !window.confirm(`Delete "${draft.title}" and all of its provisions?`)) return;
+
+    setIsSubmitting(true);
+    setStatus(null);
+
+    try {
+      const data = await send(`/api/laws/${encodeURIComponent(selectedId)}`, 'DELETE');
+      if (data) {
+        await loadLaws();
+        selectLaw(null);
+        setStatus({ type: 'success', message: 'Law deleted.' });
+        onLawsChanged();
+      }
+    } catch (error) {
+      setStatus({ type: 'error', message: 'Failed to delete law. Please try again.' });
+      console.error('Error deleting law:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <Scale className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Edit Laws</h3>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="p-1 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Law list */}
+          <div className="w-72 border-r border-gray-200 overflow-y-auto">
+            <button
+              onClick={() => selectLaw(null)}
+              disabled={isSubmitting}
+              className="w-full flex items-center space-x-2 px-4 py-3 text-sm font-medium text-primary-600 hover:bg-gray-50 border-b border-gray-200"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New law</span>
+            </button>
+            {laws.map((law) => (
+              <button
+                key={law.id}
+                onClick={() => selectLaw(law)}
+                disabled={isSubmitting}
+                className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 ${law.id === selectedId ? 'bg-primary-50' : ''}`}
+              >
+                <div className="font-medium text-gray-900 truncate">{law.title}</div>
+                <div className="text-xs text-gray-500">{law.jurisdiction} · {law.provisions.length} provisions</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Law form */}
+          <div className="flex-1 p-4 space-y-4 overflow-y-auto">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="law-title" className="block text-sm font-medium text-gray-700 mb-2">
+                  Title *
+                </label>
+                <input
+                  id="law-title"
+                  type="text"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  className="input"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div>
+                <label htmlFor="law-jurisdiction" className="block text-sm font-medium text-gray-700 mb-2">
+                  Jurisdiction *
+                </label>
+                <select
+                  id="law-jurisdiction"
+                  value={draft.jurisdiction}
+                  onChange={(e) => setDraft({ ...draft, jurisdiction: e.target.value })}
+                  className="input"
+                  disabled={isSubmitting}
+                >
+                  <option value="">Select a jurisdiction</option>
+                  {regions.map((region) => (
+                    <option key={region} value={region}>{region}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Provisions *</h4>
+              <div className="space-y-2">
+                {provisions.map((provision, position) => (
+                  <div key={position} className="flex items-start space-x-2">
+                    <input
+                      type="text"
+                      value={provision.index}
+                      onChange={(e) => updateProvision(position, { index: e.target.value })}
+                      placeholder="Index"
+                      className="input w-20"
+                      disabled={isSubmitting}
+                    />
+                    <textarea
+                      value={provision.text}
+                      onChange={(e) => updateProvision(position, { text: e.target.value })}
+                      placeholder="Provision text"
+                      rows={2}
+                      className="input flex-1"
+                      disabled={isSubmitting}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeProvision(position)}
+                      disabled={isSubmitting}
+                      className="p-2 text-gray-500 hover:text-danger-600 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, provisions: [...provisions, { index: '', text: '' }] })}
+                disabled={isSubmitting}
+                className="mt-2 flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add provision</span>
+              </button>
+            </div>
+
+            {status?.type === 'success' && (
+              <div className="flex items-center space-x-2 p-3 bg-success-50 border border-success-200 rounded-lg">
+                <CheckCircle className="w-5 h-5 text-success-600" />
+                <span className="text-success-800 font-medium">{status.message}</span>
+              </div>
+            )}
+
+            {status?.type === 'error' && (
+              <div className="p-3 bg-danger-50 border border-danger-200 rounded-lg">
+                <div className="flex items-center space-x-2">
+                  <AlertCircle className="w-5 h-5 text-danger-600" />
+                  <span className="text-danger-800 font-medium">{status.message}</span>
+                </div>
+                {status.details && (
+                  <ul className="mt-1 ml-7 list-disc text-sm text-danger-700">
+                    {status.details.map((detail) => <li key={detail}>{detail}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isSubmitting || !selectedId}
+            className="btn btn-danger"
+          >
+            Delete Law
+          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="btn btn-secondary"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSubmitting || !draft.title.trim() || !draft.jurisdiction}
+              className="btn btn-primary"
+            >
+              {isSubmitting ? 'Saving...' : selectedId ? 'Save Changes' : 'Create Law'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LawEditor;
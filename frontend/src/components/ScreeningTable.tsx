@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { FeatureScreening, Law } from '../types/api';
+import { Filter, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ScreeningTableProps {
+  screening: FeatureScreening[];
+  laws: Law[];
+}
+
+const ScreeningTable: React.FC<ScreeningTableProps> = ({ screening, laws }) => {
+  const [showExcluded, setShowExcluded] = useState(false);
+
+  const excludedCount = screening.reduce((count, feature) => count + feature.provisions.filter((provision) => !provision.relevant).length, 0);
+  const provisionText = (index: string) => laws.find((law) => law.index === index)?.law_description;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Filter className="w-5 h-5 text-primary-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Relevance Screening</h3>
+        </div>
+        <button
+          onClick={() => setShowExcluded(!showExcluded)}
+          className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-800"
+        >
+          {showExcluded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <span>{showExcluded ? 'Hide' : 'Show'} {excludedCount} excluded provisions</span>
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-left py-3 px-4 font-medium text-gray-700">Feature</th>
+              <th className="text-left py-3 px-4 font-medium text-gray-700">Provision</th>
+              <th className="text-left py-3 px-4 font-medium text-gray-700">Relevance</th>
+              <th className="text-left py-3 px-4 font-medium text-gray-700">Rationale</th>
+            </tr>
+          </thead>
+          <tbody>
+            {screening.flatMap((feature) => feature.provisions
+              .filter((law) => showExcluded || law.relevant)
+              .map((law) => (
+                <tr key={`${feature.feature_name}-${law.provision_index}`} className="border-b border-gray-100">
+                  <td className="py-3 px-4 text-sm text-gray-900">{feature.feature_name}</td>
+                  <td className="py-3 px-4">
+                    <div className="text-sm text-gray-900">{law.law_title} #{law.provision_index}</div>
+                    <div className="text-xs text-gray-500">{law['country-region']}</div>
+                    {provisionText(law.provision_index) && (
+                      <div className="text-xs text-gray-600 mt-1 line-clamp-2">{provisionText(law.provision_index)}</div>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex items-center space-x-2">
+                      <span className={law.relevant ? 'badge-success' : 'badge-info'}>
+                        {law.relevant ? 'Relevant' : 'Excluded'}
+                      </span>
+                      <span className="text-sm text-gray-600">{Math.round(law.relevance_score * 100)}%</span>
+                    </div>
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-700">
+                    {law.rationale}
+                    {law.source === 'lexical' && (
+                      <span className="ml-2 text-xs text-gray-500">(keyword match)</span>
+                    )}
+                    {law.source === 'rule' && (
+                      <span className="ml-2 text-xs text-gray-500">(rule)</span>
+                    )}
+                  </td>
+                </tr>
+              )))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ScreeningTable;
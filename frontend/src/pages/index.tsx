@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Shield, Zap, BarChart3, MessageSquare, Loader2, AlertCircle, RefreshCw, History } from 'lucide-react';
+import { Shield, Zap, BarChart3, MessageSquare, Loader2, AlertCircle, AlertTriangle, RefreshCw, History, Scale } from 'lucide-react';
 import ComplianceTable from '../components/ComplianceTable';
 import FeedbackChatbox from '../components/FeedbackChatbox';
+import GlossaryPrompt from '../components/GlossaryPrompt';
+import LawEditor from '../components/LawEditor';
+import ScreeningTable from '../components/ScreeningTable';
 import { 
   ComplianceResult, 
   SingleFeatureComplianceRequest,
   FeedbackRequest,
+  FeatureScreening,
+  FeatureWarning,
+  GlossaryEntryRequest,
   Feature,
   Law 
 } from '../types/api';
@@ -14,6 +20,8 @@ const MainPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [complianceResults, setComplianceResults] = useState<ComplianceResult[]>([]);
   const [complianceSummary, setComplianceSummary] = useState<any>(null);
+  const [screening, setScreening] = useState<FeatureScreening[]>([]);
+  const [checkedFeature, setCheckedFeature] = useState<Feature | null>(null);
   const [features, setFeatures] = useState<Feature[]>([]);
   const [laws, setLaws] = useState<Law[]>([]);
   const [featureTitle, setFeatureTitle] = useState('');
@@ -23,6 +31,8 @@ const MainPage: React.FC = () => {
   const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
   const [selectedResult, setSelectedResult] = useState<ComplianceResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [termWarnings, setTermWarnings] = useState<FeatureWarning[]>([]);
+  const [isLawEditorOpen, setIsLawEditorOpen] = useState(false);
 
   // Load initial data
   useEffect(() => {
@@ -94,37 +104,17 @@ const MainPage: React.FC = () => {
         throw new Error(addFeatureData.error || 'Failed to add feature to CSV');
       }
       console.log('Feature added to CSV successfully');
+      setTermWarnings(addFeatureData.warnings || []);
 
       // Then, check compliance against all laws
-      console.log('Checking compliance against all laws...');
-      const complianceRequest: SingleFeatureComplianceRequest = {
+      await runComplianceCheck({
         feature_name: featureTitle.trim(),
-        feature_description: featureDescription.trim(),
-        include_abbreviations: includeAbbreviations,
-        include_corrections: includeCorrections
-      };
-
-      const complianceResponse = await fetch('/api/compliance/check-feature', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(complianceRequest),
+        feature_description: featureDescription.trim()
       });
 
-      const complianceData = await complianceResponse.json();
-
-      if (complianceData.success) {
-        console.log('Compliance check completed successfully');
-        setComplianceResults(complianceData.data.results);
-        setComplianceSummary(complianceData.data.summary);
-        
-        // Clear the input fields after successful submission
-        setFeatureTitle('');
-        setFeatureDescription('');
-      } else {
-        throw new Error(complianceData.error || 'Compliance check failed');
-      }
+      // Clear the input fields after successful submission
+      setFeatureTitle('');
+      setFeatureDescription('');
     } catch (error) {
       console.error('Error during compliance check:', error);
       setError(error instanceof Error ? error.message : 'Failed to perform compliance check. Please try again.');
@@ -133,6 +123,52 @@ const MainPage: React.FC = () => {
     }
   };
 
+  const runComplianceCheck = async (feature: Feature): Promise<void> => {
+    console.log('Checking compliance against all laws...');
+    setCheckedFeature(feature);
+    const complianceRequest: SingleFeatureComplianceRequest = {
+      ...feature,
+      include_abbreviations: includeAbbreviations,
+      include_corrections: includeCorrections
+    };
+
+    const complianceResponse = await fetch('/api/compliance/check-feature', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(complianceRequest),
+    });
+
+    const complianceData = await complianceResponse.json();
+
+    if (complianceData.success) {
+      console.log('Compliance check completed successfully');
+      setComplianceResults(complianceData.data.results);
+      setComplianceSummary(complianceData.data.summary);
+      setScreening(complianceData.data.screening || []);
+    } else {
+      throw new Error(complianceData.error || 'Compliance check failed');
+    }
+  };
+
+  // Re-run the check for a feature that is already saved, e.g. after a failed screening
+  const handleRetryCheck = async () => {
+    if (!checkedFeature) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await runComplianceCheck(checkedFeature);
+    } catch (error) {
+      console.error('Error retrying compliance check:', error);
+      setError(error instanceof Error ? error.message : 'Failed to perform compliance check. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleFeedbackClick = (result: ComplianceResult) => {
     setSelectedResult(result);
     setIsFeedbackOpen(true);
@@ -159,6 +195,23 @@ const MainPage: React.FC = () => {
     }
   };
 
+  const handleSaveDefinitions = async (entries: GlossaryEntryRequest[]): Promise<void> => {
+    for (const entry of entries) {
+      const response = await fetch('/api/glossary', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(entry),
+      });
+
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || `Failed to save definition for ${entry.term}`);
+      }
+    }
+  };
+
   const handleSyncLaws = () => {
     console.log('Sync Laws button clicked - placeholder functionality');
     // TODO: Implement sync laws functionality
@@ -272,6 +325,13 @@ const MainPage: React.FC = () => {
                   <History className="w-5 h-5" />
                   <span>Check History</span>
                 </button>
+                <button
+                  onClick={() => setIsLawEditorOpen(true)}
+                  className="w-full flex items-center justify-center space-x-2 px-4 py-3 border border-gray-300 rounded-md shadow-sm bg-white text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                >
+                  <Scale className="w-5 h-5" />
+                  <span>Edit Laws</span>
+                </button>
               </div>
             </div>
           </div>
@@ -322,6 +382,31 @@ const MainPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Screening Failure Warning */}
+        {complianceSummary?.screening_outcome && complianceSummary.screening_outcome !== 'succeeded' && (
+          <div className="mb-6 p-4 bg-warning-50 border border-warning-200 rounded-lg">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="w-5 h-5 text-warning-600" />
+              <span className="text-warning-800 font-medium">
+                {complianceSummary.screening_outcome === 'failed'
+                  ? 'Relevance screening failed. No laws were checked, so these results are NOT an all-clear.'
+                  : `Relevance screening was incomplete: ${complianceSummary.unscreened_laws} law provisions were not screened and are counted as needing review.`}
+              </span>
+            </div>
+            {screening.find((s) => s.error) && (
+              <p className="mt-1 text-sm text-warning-700">Reason: {screening.find((s) => s.error)!.error}</p>
+            )}
+            <button
+              onClick={handleRetryCheck}
+              disabled={isLoading || !checkedFeature}
+              className="mt-2 flex items-center space-x-1 text-sm text-warning-700 hover:text-warning-900 underline disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Retry compliance check</span>
+            </button>
+          </div>
+        )}
+
         {/* Results Section */}
         {complianceResults.length > 0 && complianceSummary && (
           <div className="space-y-6">
@@ -338,8 +423,15 @@ const MainPage: React.FC = () => {
           </div>
         )}
 
+        {/* Screening Decisions */}
+        {screening.length > 0 && (
+          <div className="mt-6">
+            <ScreeningTable screening={screening} laws={laws} />
+          </div>
+        )}
+
         {/* No Results Message */}
-        {!isLoading && complianceResults.length === 0 && !error && (
+        {!isLoading && complianceResults.length === 0 && !error && !complianceSummary && (
           <div className="text-center py-12">
             <MessageSquare className="w-16 h-16 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Compliance Results Yet</h3>
@@ -357,6 +449,21 @@ const MainPage: React.FC = () => {
         result={selectedResult}
         onSubmitFeedback={handleSubmitFeedback}
       />
+
+      {/* Undefined Glossary Terms */}
+      <GlossaryPrompt
+        isOpen={termWarnings.length > 0}
+        onClose={() => setTermWarnings([])}
+        warnings={termWarnings}
+        onSaveDefinitions={handleSaveDefinitions}
+      />
+
+      {/* Law Editor */}
+      <LawEditor
+        isOpen={isLawEditorOpen}
+        onClose={() => setIsLawEditorOpen(false)}
+        onLawsChanged={loadLaws}
+      />
     </div>
   );
 };
@@ -1,10 +1,30 @@
 export interface Law {
   index: string;
+  law_id: string;
   law_description: string;
   law_title: string;
   'country-region': string;
 }
 
+export interface Provision {
+  index: string;
+  text: string;
+}
+
+// A law and its provisions, from GET /api/laws?grouped=true
+export interface LawRecord {
+  id: string;
+  title: string;
+  jurisdiction: string;
+  provisions: Provision[];
+}
+
+export interface LawRequest {
+  title: string;
+  jurisdiction: string;
+  provisions?: Provision[];
+}
+
 export interface Feature {
   feature_name: string;
   feature_description: string;
@@ -12,18 +32,84 @@ export interface Feature {
 
 export interface ComplianceResult {
   feature_name: string;
+  feature_description: string;
+  law_id: string;
   law_title: string;
+  provision_index: string;
   law_description: string;
   compliance_status: 'compliant' | 'non-compliant' | 'requires_review';
   reasoning: string;
   recommendations: string[];
+  confidence: number;
+  raw_confidence?: number;
+  abstained_status?: ComplianceStatus;
+  evidence?: EvidenceSpan[];
+  rejected_evidence?: number;
+  cached?: boolean;
+  expanded_terms?: { term: string; definition: string }[];
+  prompt_version?: string;
+  parse_failed?: boolean;
+  repair_attempts?: number;
+  ensemble?: EnsembleOutcome;
+  contested?: boolean;
+  rule_hits?: RuleHit[];
+  model_status?: ComplianceStatus;
+  injection_findings?: InjectionFinding[];
+  flagged_status?: ComplianceStatus;
+}
+
+export interface InjectionFinding {
+  source: 'feature_name' | 'feature_description' | 'correction';
+  rule: string;
+  excerpt: string;
+}
+
+export type ComplianceStatus = ComplianceResult['compliance_status'];
+
+export interface EvidenceSpan {
+  quote: string;
+  start: number;
+  end: number;
+  law_quote?: string;
+  law_start?: number;
+  law_end?: number;
+}
+
+export interface RuleHit {
+  rule_id: string;
+  description?: string;
+  matched: string[];
+  relevant?: boolean;
+  status?: ComplianceStatus;
+}
+
+export type EnsembleVoting = 'majority' | 'unanimous' | 'strictest';
+
+export interface EnsembleVote {
+  member: string;
+  compliance_status: ComplianceStatus;
+  reasoning: string;
+  recommendations: string[];
+  confidence: number;
+  failed?: boolean;
+}
+
+export interface EnsembleOutcome {
+  voting: EnsembleVoting;
+  voted_status: ComplianceStatus;
+  votes: EnsembleVote[];
 }
 
 export interface ComplianceCheckRequest {
   features?: string[];
   laws?: string[];
+  provisions?: string[];
   include_abbreviations?: boolean;
   include_corrections?: boolean;
+  team?: string;
+  ensemble?: boolean;
+  ensemble_voting?: EnsembleVoting;
+  abstention_threshold?: number;
 }
 
 export interface SingleFeatureComplianceRequest {
@@ -31,27 +117,93 @@ export interface SingleFeatureComplianceRequest {
   feature_description: string;
   include_abbreviations?: boolean;
   include_corrections?: boolean;
+  team?: string;
+  ensemble?: boolean;
+  ensemble_voting?: EnsembleVoting;
+  abstention_threshold?: number;
+}
+
+export interface ProvisionScreening {
+  law_id: string;
+  law_title: string;
+  'country-region': string;
+  provision_index: string;
+  relevant: boolean;
+  relevance_score: number;
+  rationale: string;
+  source: 'model' | 'lexical' | 'rule';
+  rule_hits?: RuleHit[];
+  unscreened?: boolean;
+}
+
+export type ScreeningOutcome = 'succeeded' | 'failed' | 'partial';
+
+export interface FeatureScreening {
+  feature_name: string;
+  outcome: ScreeningOutcome;
+  relevant_provisions: string[];
+  provisions: ProvisionScreening[];
+  prompt_version?: string;
+  error?: string;
+  injection_findings?: InjectionFinding[];
 }
 
 export interface ComplianceCheckResponse {
   results: ComplianceResult[];
+  screening?: FeatureScreening[];
   summary: {
     total_features: number;
     total_laws: number;
     compliant_count: number;
     non_compliant_count: number;
     review_required_count: number;
+    parse_failure_count?: number;
+    screening_outcome?: ScreeningOutcome;
+    unscreened_laws?: number;
+    contested_count?: number;
+    abstained_count?: number;
+    flagged_count?: number;
     overall_risk_score: number;
+    risk?: RiskBreakdown;
+    redaction?: RedactionReport;
   };
   timestamp: string;
 }
 
+export type GlossaryScope = 'global' | 'team' | 'jurisdiction';
+
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  definition: string;
+  scope: GlossaryScope;
+  scope_value?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GlossaryEntryRequest {
+  term: string;
+  definition: string;
+  scope?: GlossaryScope;
+  scope_value?: string;
+}
+
+export interface FeatureWarning {
+  type: 'undefined_term';
+  term: string;
+  message: string;
+}
+
 export interface FeedbackRequest {
   feature_name: string;
   law_title: string;
   feedback_type: 'correction' | 'suggestion' | 'question';
   message: string;
   user_email?: string;
+  original_status?: ComplianceStatus;
+  original_confidence?: number;
+  corrected_status?: ComplianceStatus;
 }
 
 export interface FeedbackResponse {
@@ -74,5 +226,38 @@ export interface ComplianceSummary {
   compliant_count: number;
   non_compliant_count: number;
   review_required_count: number;
+  parse_failure_count?: number;
+  screening_outcome?: ScreeningOutcome;
+  unscreened_laws?: number;
+  contested_count?: number;
+  abstained_count?: number;
+  flagged_count?: number;
   overall_risk_score: number;
+  risk?: RiskBreakdown;
+  redaction?: RedactionReport;
+}
+
+export type RedactionType = 'email' | 'phone' | 'name' | 'api_key' | 'hostname';
+
+export interface RedactionReport {
+  enabled: boolean;
+  total: number;
+  calls: number;
+  by_type: Partial<Record<RedactionType, number>>;
+  by_stage: Partial<Record<string, number>>;
+  values: Array<{ type: RedactionType; masked: string; occurrences: number }>;
+}
+
+export interface RiskGroupScore {
+  name: string;
+  score: number;
+  items: number;
+  non_compliant_count: number;
+  review_count: number;
+}
+
+export interface RiskBreakdown {
+  overall_score: number;
+  by_feature: RiskGroupScore[];
+  by_jurisdiction: RiskGroupScore[];
 }